@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+// Straßennetz für den Offline-Fallback von calculate-route erzeugen.
+//
+// 1. OSM-Auszug als Overpass-JSON holen, z.B. für eine Bounding Box:
+//      [out:json][timeout:300];
+//      way["highway"](south,west,north,east);
+//      (._;>;);
+//      out body;
+// 2. node scripts/build-road-graph.mjs overpass.json road-graph.json
+// 3. road-graph.json z.B. in einen öffentlichen Storage-Bucket laden und
+//    FALLBACK_GRAPH_URL der Edge Functions darauf setzen.
+//
+// Format: siehe RoadGraphFile in supabase/functions/_shared/fallback/roadGraph.ts
+
+import { readFileSync, writeFileSync } from "node:fs";
+
+// Wege, die für keines unserer Profile routbar sind
+const SKIPPED = new Set([
+  "construction",
+  "proposed",
+  "abandoned",
+  "platform",
+  "raceway",
+  "bus_stop",
+  "elevator",
+  "corridor",
+]);
+
+const [input, output] = process.argv.slice(2);
+if (!input || !output) {
+  console.error("Aufruf: node scripts/build-road-graph.mjs <overpass.json> <road-graph.json>");
+  process.exit(1);
+}
+
+const { elements } = JSON.parse(readFileSync(input, "utf8"));
+
+const coords = new Map();
+for (const el of elements) {
+  if (el.type === "node") coords.set(el.id, [el.lat, el.lon]);
+}
+
+const toRad = (deg) => (deg * Math.PI) / 180;
+function meters([lat1, lng1], [lat2, lng2]) {
+  const a =
+    Math.sin(toRad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(toRad(lng2 - lng1) / 2) ** 2;
+  return 2 * 6371000 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+const classes = [];
+const classIndex = new Map();
+const nodeIndex = new Map();
+const nodes = [];
+const edges = [];
+
+const indexOfNode = (osmId) => {
+  let index = nodeIndex.get(osmId);
+  if (index === undefined) {
+    const [lat, lng] = coords.get(osmId);
+    index = nodes.length;
+    nodes.push([Number(lat.toFixed(6)), Number(lng.toFixed(6))]);
+    nodeIndex.set(osmId, index);
+  }
+  return index;
+};
+
+for (const way of elements) {
+  const highway = way.type === "way" ? way.tags?.highway : undefined;
+  if (!highway || SKIPPED.has(highway) || way.tags.area === "yes") continue;
+  if (!classIndex.has(highway)) {
+    classIndex.set(highway, classes.length);
+    classes.push(highway);
+  }
+
+  // oneway=-1: Einbahn entgegen der Zeichenrichtung
+  const oneway = way.tags.oneway;
+  const reversed = oneway === "-1";
+  const isOneway =
+    reversed ||
+    oneway === "yes" ||
+    oneway === "1" ||
+    (oneway === undefined && (highway === "motorway" || way.tags.junction === "roundabout"));
+
+  const refs = way.nodes.filter((id) => coords.has(id));
+  const ordered = reversed ? [...refs].reverse() : refs;
+  for (let i = 0; i < ordered.length - 1; i++) {
+    const from = indexOfNode(ordered[i]);
+    const to = indexOfNode(ordered[i + 1]);
+    const length = meters(nodes[from], nodes[to]);
+    edges.push([from, to, Math.round(length * 10) / 10, classIndex.get(highway), isOneway ? 1 : 0]);
+  }
+}
+
+writeFileSync(output, JSON.stringify({ version: 1, classes, nodes, edges }));
+console.log(`${nodes.length} Knoten, ${edges.length} Kanten, ${classes.length} Straßenklassen -> ${output}`);
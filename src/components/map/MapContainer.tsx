@@ -1,6 +1,8 @@
 import { useEffect, useRef } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
+import type { AvoidArea, LineString, RouteData, Waypoint } from '@/types/route';
+import type { IsochroneFeature } from '@/components/sidebar/IsochroneCard';
 
 // Fix default markers
 delete (L.Icon.Default.prototype as any)._getIconUrl;
@@ -13,89 +15,51 @@ L.Icon.Default.mergeOptions({
     'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.9.4/images/marker-shadow.png',
 });
 
-interface Waypoint {
-  id: string;
-  label: string;
-  address: string;
-  lat?: number; // Leaflet-Order: [lat, lon]
-  lng?: number;
-}
-
 type LatLng = [number, number];        // [lat, lon]   -> Leaflet
-type LngLat = [number, number];        // [lon, lat]   -> ORS
-
-type ORSLineString = {
-  type: 'LineString';
-  coordinates: LngLat[];
-};
-
-interface RouteData {
-  distance: string;
-  duration: string;
-  instructions: string[];
-  /**
-   * Kann sein:
-   * - ORS GeoJSON LineString: { type:'LineString', coordinates:[[lon,lat], ...] }
-   * - Array von Punkten: [[lat,lon], ...] ODER [[lon,lat], ...]
-   */
-  geometry?: ORSLineString | Array<[number, number]>;
-  waypoints?: Waypoint[];
-}
+
+// Farben von innen (kleinstes Budget) nach außen
+const ISOCHRONE_COLORS = ['#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#3b82f6'];
 
 interface MapContainerProps {
   className?: string;
   waypoints?: Waypoint[];
-  routeData?: RouteData;
+  routeData?: RouteData | null;
   isCalculating?: boolean;
+  onSelectAlternative?: (index: number) => void;
+  /** Punkt [lat,lng], auf den gezoomt und der hervorgehoben wird */
+  focusPoint?: LatLng | null;
+  /** Erreichbarkeits-Polygone, größtes zuerst */
+  isochrones?: IsochroneFeature[] | null;
+  /** Kartenmitte + Zoom nach jeder Verschiebung */
+  onViewportChange?: (viewport: { lat: number; lng: number; zoom: number }) => void;
+  /** Klick auf eine freie Stelle der Karte */
+  onMapClick?: (lat: number, lng: number) => void;
+  /** Marker eines Wegpunkts wurde verschoben */
+  onWaypointDrag?: (id: string, lat: number, lng: number) => void;
+  /** Sperrflächen, die die Route meiden soll */
+  avoidAreas?: AvoidArea[];
+  /** Zeichenmodus: Klicks setzen Eckpunkte statt Wegpunkte */
+  drawingAvoidArea?: boolean;
+  onAvoidAreaDrawn?: (area: AvoidArea) => void;
 }
 
-/** Heuristik:
- * - Kommt ein Paar mit |x| > 90 ⇒ es ist sehr wahrscheinlich [lon,lat] (x = lon in [-180,180])
- * - Wir drehen dann auf [lat,lon] um (Leaflet erwartet [lat,lon]).
- */
-function toLeafletLatLngs(
-  geometry: ORSLineString | Array<[number, number]>
-): LatLng[] {
-  // ORS GeoJSON
-  if (geometry && (geometry as any)?.type === 'LineString') {
-    const line = geometry as ORSLineString;
-    return line.coordinates
-      .filter(
-        (c) =>
-          Array.isArray(c) &&
-          c.length >= 2 &&
-          Number.isFinite(c[0]) &&
-          Number.isFinite(c[1])
-      )
-      .map<LatLng>(([lon, lat]) => [lat, lon]); // [lon,lat] -> [lat,lon]
-  }
-
-  // Array-Fallback
-  const arr = geometry as Array<[number, number]>;
-  const cleaned = arr.filter(
-    (c) =>
-      Array.isArray(c) &&
-      c.length >= 2 &&
-      Number.isFinite(c[0]) &&
-      Number.isFinite(c[1])
-  );
+// Klicks näher als so viele Pixel gelten als derselbe Punkt
+const SNAP_PIXELS = 8;
 
-  if (cleaned.length === 0) return [];
-
-  // Ermitteln, ob die Eingabe [lon,lat] ist (⇒ drehen)
-  // Prüfen am ersten Punkt:
-  const [x, y] = cleaned[0];
-  const looksLikeLngLat = Math.abs(x) <= 180 && Math.abs(y) <= 90 && Math.abs(x) > 90; // x ~ lon kann bis 180, y ~ lat bis 90
-  // Die obere Heuristik ist streng; besser: wenn x außerhalb Lat-Bereich
-  const isLikelyLngLat = Math.abs(x) > 90 || Math.abs(y) > 90 ? Math.abs(x) > 90 : false;
-
-  if (isLikelyLngLat || looksLikeLngLat) {
-    // [lon,lat] -> [lat,lon]
-    return cleaned.map<LatLng>(([lon, lat]) => [lat, lon]);
-  } else {
-    // bereits [lat,lon]
-    return cleaned as LatLng[];
-  }
+/** Leaflet-Eckpunkte -> geschlossenes GeoJSON-Polygon [lon,lat] */
+function toAvoidArea(points: L.LatLng[]): AvoidArea {
+  const ring = points.map<[number, number]>((p) => [
+    Number(p.lng.toFixed(6)),
+    Number(p.lat.toFixed(6)),
+  ]);
+  return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+}
+
+/** GeoJSON [lon,lat] -> Leaflet [lat,lon], ungültige Punkte fallen weg */
+function toLeafletLatLngs(geometry: LineString): LatLng[] {
+  return geometry.coordinates
+    .filter((c) => Array.isArray(c) && c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1]))
+    .map<LatLng>(([lon, lat]) => [lat, lon]);
 }
 
 export function MapContainer({
@@ -103,11 +67,40 @@ export function MapContainer({
   waypoints = [],
   routeData,
   isCalculating,
+  onSelectAlternative,
+  focusPoint,
+  isochrones,
+  onViewportChange,
+  onMapClick,
+  onWaypointDrag,
+  avoidAreas,
+  drawingAvoidArea,
+  onAvoidAreaDrawn,
 }: MapContainerProps) {
   const mapRef = useRef<HTMLDivElement>(null);
   const mapInstanceRef = useRef<L.Map | null>(null);
   const markersRef = useRef<L.Marker[]>([]);
   const polylineRef = useRef<L.Polyline | null>(null);
+  const alternativesRef = useRef<L.Polyline[]>([]);
+  const focusMarkerRef = useRef<L.CircleMarker | null>(null);
+  const isochroneLayerRef = useRef<L.GeoJSON | null>(null);
+  const onViewportChangeRef = useRef(onViewportChange);
+  onViewportChangeRef.current = onViewportChange;
+  const onMapClickRef = useRef(onMapClick);
+  onMapClickRef.current = onMapClick;
+  const avoidLayerRef = useRef<L.FeatureGroup | null>(null);
+  const draftLayerRef = useRef<L.Polygon | null>(null);
+  const draftPointsRef = useRef<L.LatLng[]>([]);
+  const drawingRef = useRef(drawingAvoidArea);
+  drawingRef.current = drawingAvoidArea;
+  const onAvoidAreaDrawnRef = useRef(onAvoidAreaDrawn);
+  onAvoidAreaDrawnRef.current = onAvoidAreaDrawn;
+
+  // Klicks auf Flächen nicht als Kartenklick (neuer Zwischenstopp) weiterreichen;
+  // beim Zeichnen einer Sperrfläche braucht die Karte sie aber
+  const stopMapClick = (e: L.LeafletMouseEvent) => {
+    if (!drawingRef.current) L.DomEvent.stopPropagation(e);
+  };
 
   useEffect(() => {
     if (!mapRef.current || mapInstanceRef.current) return;
@@ -128,6 +121,56 @@ export function MapContainer({
 
     mapInstanceRef.current = map;
 
+    const reportViewport = () => {
+      const center = map.getCenter();
+      onViewportChangeRef.current?.({ lat: center.lat, lng: center.lng, zoom: map.getZoom() });
+    };
+    map.on('moveend', reportViewport);
+    reportViewport();
+
+    const renderDraft = () => {
+      const points = draftPointsRef.current;
+      if (!draftLayerRef.current) {
+        draftLayerRef.current = L.polygon([], {
+          color: '#dc2626',
+          weight: 2,
+          dashArray: '4 4',
+          fillOpacity: 0.1,
+        }).addTo(map);
+      }
+      draftLayerRef.current.setLatLngs(points);
+    };
+
+    const finishDraft = () => {
+      const points = draftPointsRef.current;
+      if (points.length < 3) return;
+      draftPointsRef.current = [];
+      renderDraft();
+      onAvoidAreaDrawnRef.current?.(toAvoidArea(points));
+    };
+
+    const isNear = (a: L.LatLng, b: L.LatLng) =>
+      map.latLngToContainerPoint(a).distanceTo(map.latLngToContainerPoint(b)) < SNAP_PIXELS;
+
+    map.on('click', (e: L.LeafletMouseEvent) => {
+      if (!drawingRef.current) {
+        onMapClickRef.current?.(e.latlng.lat, e.latlng.lng);
+        return;
+      }
+      const points = draftPointsRef.current;
+      // Klick auf den ersten Punkt schließt die Fläche; Doppelklick-Klicks nicht doppelt zählen
+      if (points.length >= 3 && isNear(e.latlng, points[0])) {
+        finishDraft();
+        return;
+      }
+      if (points.length && isNear(e.latlng, points[points.length - 1])) return;
+      draftPointsRef.current = [...points, e.latlng];
+      renderDraft();
+    });
+    map.on('dblclick', () => {
+      if (drawingRef.current) finishDraft();
+    });
+
     // Cleanup
     return () => {
       if (mapInstanceRef.current) {
@@ -175,6 +218,9 @@ export function MapContainer({
       polylineRef.current = null;
     }
 
+    alternativesRef.current.forEach((line) => map.removeLayer(line));
+    alternativesRef.current = [];
+
     // Add markers for waypoints
     const validWaypoints = waypoints.filter((wp) => wp.address);
     if (validWaypoints.length === 0 && !routeData?.geometry) return;
@@ -182,7 +228,11 @@ export function MapContainer({
     const bounds = L.latLngBounds([]);
 
     validWaypoints.forEach((waypoint, idx) => {
-      const coords = getCoordinatesForAddress(waypoint.address); // [lat,lon]
+      // Gewählte Vorschläge bringen echte Koordinaten mit, sonst Mock
+      const coords: [number, number] =
+        waypoint.lat != null && waypoint.lng != null
+          ? [waypoint.lat, waypoint.lng]
+          : getCoordinatesForAddress(waypoint.address); // [lat,lon]
 
       // Colors: start=grün, end=rot, sonst blau
       let iconColor = '#3b82f6';
@@ -200,41 +250,64 @@ export function MapContainer({
         className: 'custom-waypoint-icon',
       });
 
-      const marker = L.marker(coords, { icon: customIcon }).addTo(map);
-      marker.bindPopup(`<b>${waypoint.label}</b><br>${waypoint.address}`);
+      const marker = L.marker(coords, { icon: customIcon, draggable: !!onWaypointDrag }).addTo(map);
+      // Adressen stammen u.a. von Photon/Nominatim: als Text einsetzen, nicht als HTML
+      const popup = document.createElement('div');
+      const title = document.createElement('b');
+      title.textContent = waypoint.label;
+      popup.append(title, document.createElement('br'), waypoint.address ?? '');
+      marker.bindPopup(popup);
+      marker.on('dragend', () => {
+        const { lat, lng } = marker.getLatLng();
+        onWaypointDrag?.(waypoint.id, lat, lng);
+      });
 
       markersRef.current.push(marker);
       bounds.extend(coords as any);
     });
 
-    // Route (ORS oder Array)
+    // Alternativen: grau und anklickbar, unter der gewählten Route
+    if (routeData?.alternatives && !isCalculating) {
+      const selected = routeData.selectedAlternative ?? 0;
+      routeData.alternatives.forEach((alternative, index) => {
+        if (index === selected) return;
+        const coords = toLeafletLatLngs(alternative.geometry);
+        if (coords.length < 2) return;
+
+        const line = L.polyline(coords, {
+          color: '#94a3b8',
+          weight: 5,
+          opacity: 0.8,
+          // Auswahl einer Alternative ist kein Kartenklick (würde einen Zwischenstopp einfügen)
+          bubblingMouseEvents: false,
+        }).addTo(map);
+        line.bindTooltip(`${alternative.distance} • ${alternative.duration}`, { sticky: true });
+        line.on('click', () => onSelectAlternative?.(index));
+
+        alternativesRef.current.push(line);
+        bounds.extend(line.getBounds());
+      });
+    }
+
     // Add route polyline if route is calculated
     if (routeData && routeData.geometry) {
-      let routeCoords: [number, number][] = [];
-    
-      if (Array.isArray(routeData.geometry)) {
-        // Fallback: [lat,lng][] (Luftlinie)
-        routeCoords = routeData.geometry.filter(
-          (c: any) =>
-            Array.isArray(c) &&
-            c.length >= 2 &&
-            Number.isFinite(c[0]) &&
-            Number.isFinite(c[1])
-        );
-      } else if (routeData.geometry?.type === "LineString" && Array.isArray(routeData.geometry.coordinates)) {
-        // ORS GeoJSON: [[lon,lat], ...] -> für Leaflet drehen auf [lat,lng]
-        routeCoords = routeData.geometry.coordinates
-          .filter((c: any) => Array.isArray(c) && c.length >= 2 && Number.isFinite(c[0]) && Number.isFinite(c[1]))
-          .map(([lon, lat]: [number, number]) => [lat, lon]);
-      }
+      const routeCoords = toLeafletLatLngs(routeData.geometry);
     
       if (routeCoords.length >= 2) {
+        // Ersatzrouten gestrichelt in Warnfarbe, damit sie nicht als echte Route durchgehen
+        const degraded = !isCalculating && routeData.degraded;
         const polyline = L.polyline(routeCoords, {
-          color: isCalculating ? "#94a3b8" : "hsl(155, 75%, 40%)",
+          color: isCalculating ? "#94a3b8" : degraded ? "#d97706" : "hsl(155, 75%, 40%)",
           weight: 4,
           opacity: 0.9,
-          dashArray: isCalculating ? "6 6" : undefined,
+          dashArray: isCalculating ? "6 6" : degraded === "straight-line" ? "2 8" : degraded ? "10 6" : undefined,
         }).addTo(map);
+        if (degraded) {
+          polyline.bindTooltip(
+            degraded === "road-graph" ? "Ersatzroute (Offline-Straßennetz)" : "Luftlinie",
+            { sticky: true },
+          );
+        }
       
         polylineRef.current = polyline;
       
@@ -247,7 +320,103 @@ export function MapContainer({
     if (bounds.isValid()) {
       map.fitBounds(bounds, { padding: [24, 24] });
     }
-  }, [waypoints, routeData, isCalculating]);
+  }, [waypoints, routeData, isCalculating, onSelectAlternative, onWaypointDrag]);
+
+  // Zeichenmodus: Doppelklick-Zoom aus, angefangene Fläche beim Beenden verwerfen
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (drawingAvoidArea) {
+      map.doubleClickZoom.disable();
+      map.getContainer().style.cursor = 'crosshair';
+      return;
+    }
+    map.doubleClickZoom.enable();
+    map.getContainer().style.cursor = '';
+    draftPointsRef.current = [];
+    draftLayerRef.current?.setLatLngs([]);
+  }, [drawingAvoidArea]);
+
+  // Sperrflächen rot schraffiert unter der Route
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (avoidLayerRef.current) {
+      map.removeLayer(avoidLayerRef.current);
+      avoidLayerRef.current = null;
+    }
+    if (!avoidAreas?.length) return;
+
+    const layer = L.featureGroup(
+      avoidAreas.map((area, index) =>
+        L.polygon(
+          area.coordinates.map((ring) => ring.map<LatLng>(([lon, lat]) => [lat, lon])),
+          { color: '#dc2626', weight: 2, fillColor: '#dc2626', fillOpacity: 0.15 }
+        ).bindTooltip(`Sperrfläche ${index + 1}`, { sticky: true })
+      )
+    )
+      .on('click', stopMapClick)
+      .addTo(map);
+    layer.bringToBack();
+    avoidLayerRef.current = layer;
+  }, [avoidAreas]);
+
+  // Erreichbarkeit als halbtransparente Flächen
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (isochroneLayerRef.current) {
+      map.removeLayer(isochroneLayerRef.current);
+      isochroneLayerRef.current = null;
+    }
+    if (!isochrones?.length) return;
+
+    const count = isochrones.length;
+    const layer = L.geoJSON(
+      { type: 'FeatureCollection', features: isochrones } as GeoJSON.FeatureCollection,
+      {
+        style: (feature) => {
+          // Features kommen größtes zuerst -> innerstes bekommt die erste Farbe
+          const index = count - 1 - isochrones.indexOf(feature as unknown as IsochroneFeature);
+          const color = ISOCHRONE_COLORS[index % ISOCHRONE_COLORS.length];
+          return { color, weight: 1, fillColor: color, fillOpacity: 0.15 };
+        },
+        onEachFeature: (feature, featureLayer) => {
+          featureLayer.bindTooltip(`${feature.properties.range} ${feature.properties.unit}`, { sticky: true });
+        },
+      }
+    )
+      .on('click', stopMapClick)
+      .addTo(map);
+    layer.bringToBack();
+
+    isochroneLayerRef.current = layer;
+    const bounds = layer.getBounds();
+    if (bounds.isValid()) map.fitBounds(bounds, { padding: [24, 24] });
+  }, [isochrones]);
+
+  // Auf gewähltes Manöver zoomen
+  useEffect(() => {
+    const map = mapInstanceRef.current;
+    if (!map) return;
+
+    if (focusMarkerRef.current) {
+      map.removeLayer(focusMarkerRef.current);
+      focusMarkerRef.current = null;
+    }
+    if (!focusPoint) return;
+
+    focusMarkerRef.current = L.circleMarker(focusPoint, {
+      radius: 8,
+      color: '#f59e0b',
+      weight: 3,
+      fillOpacity: 0.4,
+    }).addTo(map);
+    map.setView(focusPoint, 16);
+  }, [focusPoint]);
 
   return (
     <div className={className}>
@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import { MapPin } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Input } from "@/components/ui/input";
+import { Command, CommandEmpty, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverAnchor, PopoverContent } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+
+/** Kartenmitte + Zoom, dient als Ortsbezug für die Vorschläge */
+export interface MapViewport {
+  lat: number;
+  lng: number;
+  zoom: number;
+}
+
+interface AddressSuggestion {
+  label: string;
+  lat: number;
+  lng: number;
+  type?: string;
+}
+
+interface AddressComboboxProps {
+  value: string;
+  /** Freitext-Eingabe (Koordinaten sind damit ungültig) */
+  onChange: (address: string) => void;
+  /** Vorschlag gewählt: Adresse samt Koordinaten übernehmen */
+  onSelect: (suggestion: AddressSuggestion) => void;
+  viewport?: MapViewport | null;
+  /** Länderfilter (ISO-Codes); leer = Server-Vorgabe */
+  countries?: string[];
+  placeholder?: string;
+  /** Adresse wurde vom Server nicht gefunden */
+  invalid?: boolean;
+  className?: string;
+}
+
+const DEBOUNCE_MS = 300;
+const MIN_QUERY_LENGTH = 3;
+
+export function AddressCombobox({
+  value,
+  onChange,
+  onSelect,
+  viewport,
+  countries,
+  placeholder = "Adresse eingeben...",
+  invalid = false,
+  className,
+}: AddressComboboxProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<AddressSuggestion[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  // Kartenbewegung soll keine neue Suche auslösen, nur den nächsten Aufruf beeinflussen
+  const viewportRef = useRef(viewport);
+  viewportRef.current = viewport;
+  const countriesRef = useRef(countries);
+  countriesRef.current = countries;
+
+  // Nur nach Tastatureingabe suchen, nicht wenn value von außen gesetzt wird
+  useEffect(() => {
+    if (query.trim().length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      const bias = viewportRef.current;
+      const { data, error } = await supabase.functions.invoke<{ suggestions: AddressSuggestion[] }>(
+        "suggest-address",
+        {
+          body: { query, lat: bias?.lat, lng: bias?.lng, zoom: bias?.zoom, countries: countriesRef.current },
+        }
+      );
+      if (cancelled) return;
+      if (error) console.error("Fehler bei Adressvorschlägen:", error);
+      setSuggestions(data?.suggestions ?? []);
+      setIsLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      // Abgebrochene Anfrage setzt isLoading nicht mehr zurück
+      setIsLoading(false);
+    };
+  }, [query]);
+
+  const handleInput = (text: string) => {
+    onChange(text);
+    setQuery(text);
+    setOpen(text.trim().length >= MIN_QUERY_LENGTH);
+  };
+
+  const handleSelect = (suggestion: AddressSuggestion) => {
+    onSelect(suggestion);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <Command shouldFilter={false} className="h-auto overflow-visible bg-transparent">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverAnchor asChild>
+          <Input
+            placeholder={placeholder}
+            value={value}
+            onChange={(e) => handleInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Escape") setOpen(false);
+            }}
+            onBlur={() => setOpen(false)}
+            className={cn(invalid && "border-destructive focus-visible:ring-destructive", className)}
+            aria-invalid={invalid}
+            role="combobox"
+            aria-expanded={open}
+            aria-autocomplete="list"
+          />
+        </PopoverAnchor>
+        <PopoverContent
+          align="start"
+          className="w-[var(--radix-popover-trigger-width)] p-0"
+          // Fokus bleibt im Eingabefeld, Pfeiltasten steuern die Liste
+          onOpenAutoFocus={(e) => e.preventDefault()}
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          <CommandList>
+            <CommandEmpty>{isLoading ? "Suche..." : "Keine Treffer"}</CommandEmpty>
+            {suggestions.map((s, i) => (
+              <CommandItem
+                key={`${s.lat},${s.lng},${i}`}
+                value={`${i}-${s.label}`}
+                onSelect={() => handleSelect(s)}
+                className="text-sm"
+              >
+                <MapPin className="mr-2 h-3 w-3 shrink-0 text-muted-foreground" />
+                <span className="truncate">{s.label}</span>
+              </CommandItem>
+            ))}
+          </CommandList>
+        </PopoverContent>
+      </Popover>
+    </Command>
+  );
+}
@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { LogIn, LogOut, UserCircle } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { useSession } from "@/hooks/use-session";
+
+export function AuthCard() {
+  const { session, isLoading } = useSession();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const signIn = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    const { error } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+    setIsSubmitting(false);
+    if (error) {
+      toast.error("Anmeldung fehlgeschlagen", { description: error.message });
+      return;
+    }
+    setPassword("");
+  };
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) toast.error("Abmelden fehlgeschlagen", { description: error.message });
+  };
+
+  if (isLoading) return null;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <UserCircle className="h-4 w-4" />
+          Anmeldung
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {session ? (
+          <div className="flex items-center gap-2">
+            <span className="flex-1 truncate text-sm" title={session.user.email}>
+              {session.user.email}
+            </span>
+            <Button variant="outline" size="sm" onClick={signOut} title="Abmelden">
+              <LogOut className="h-4 w-4" />
+            </Button>
+          </div>
+        ) : (
+          <form onSubmit={signIn} className="space-y-2">
+            <p className="text-xs text-muted-foreground">Für die Routenberechnung ist eine Anmeldung nötig.</p>
+            <Input
+              type="email"
+              placeholder="E-Mail"
+              autoComplete="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="text-sm"
+            />
+            <Input
+              type="password"
+              placeholder="Passwort"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="text-sm"
+            />
+            <Button type="submit" size="sm" className="w-full" disabled={isSubmitting || !email || !password}>
+              <LogIn className="h-4 w-4 mr-2" />
+              Anmelden
+            </Button>
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
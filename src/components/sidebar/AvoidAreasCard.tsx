@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Ban, Pencil, Save, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { MAX_AVOID_AREAS } from "@contract";
+import { useAvoidAreaSets } from "@/hooks/use-avoid-area-sets";
+import type { AvoidArea } from "@/types/route";
+
+interface AvoidAreasCardProps {
+  areas: AvoidArea[];
+  onChange: (areas: AvoidArea[]) => void;
+  isDrawing: boolean;
+  onDrawingChange: (drawing: boolean) => void;
+}
+
+export function AvoidAreasCard({ areas, onChange, isDrawing, onDrawingChange }: AvoidAreasCardProps) {
+  const { sets, canSave, saveSet, deleteSet } = useAvoidAreaSets();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  const selectSet = (id: string) => {
+    const set = sets.find((s) => s.id === id);
+    if (!set) return;
+    setSelectedId(id);
+    setName(set.name);
+    onChange(set.areas);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error("Bitte einen Namen für die Sperrflächen eingeben.");
+      return;
+    }
+    try {
+      await saveSet(name.trim(), areas);
+      toast.success("Sperrflächen gespeichert");
+    } catch (err: unknown) {
+      toast.error("Sperrflächen konnten nicht gespeichert werden", {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+    try {
+      await deleteSet(selectedId);
+      setSelectedId(null);
+      setName("");
+    } catch (err: unknown) {
+      toast.error("Sperrflächen konnten nicht gelöscht werden", {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Ban className="h-4 w-4" />
+          Sperrflächen
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {sets.length > 0 && (
+          <Select value={selectedId ?? undefined} onValueChange={selectSet}>
+            <SelectTrigger className="text-sm">
+              <SelectValue placeholder="Gespeicherte Sperrflächen laden" />
+            </SelectTrigger>
+            <SelectContent>
+              {sets.map((s) => (
+                <SelectItem key={s.id} value={s.id}>
+                  {s.name} ({s.areas.length})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {areas.length > 0 && (
+          <ul className="space-y-1 text-sm">
+            {areas.map((area, index) => (
+              <li key={index} className="flex items-center justify-between gap-2">
+                <span>Fläche {index + 1}</span>
+                <span className="text-xs text-muted-foreground">
+                  {area.coordinates[0].length - 1} Eckpunkte
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onChange(areas.filter((_, i) => i !== index))}
+                  title="Fläche entfernen"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {isDrawing ? (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Eckpunkte auf die Karte klicken; Doppelklick oder Klick auf den ersten Punkt schließt die Fläche.
+            </p>
+            <Button variant="outline" size="sm" className="w-full" onClick={() => onDrawingChange(false)}>
+              <X className="h-4 w-4 mr-2" />
+              Zeichnen abbrechen
+            </Button>
+          </>
+        ) : (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => onDrawingChange(true)}
+              disabled={areas.length >= MAX_AVOID_AREAS}
+            >
+              <Pencil className="h-4 w-4 mr-2" />
+              Fläche zeichnen
+            </Button>
+            {areas.length > 0 && (
+              <Button variant="ghost" size="sm" onClick={() => onChange([])} title="Alle Flächen entfernen">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        )}
+
+        {canSave ? (
+          <div className="flex gap-2">
+            <Input
+              placeholder="Name, z.B. Baustellen Mai"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="text-sm"
+            />
+            <Button variant="outline" size="sm" onClick={handleSave} title="Sperrflächen speichern">
+              <Save className="h-4 w-4" />
+            </Button>
+            {selectedId && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleDelete}
+                className="text-destructive hover:text-destructive"
+                title="Gespeicherte Sperrflächen löschen"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        ) : (
+          <p className="text-xs text-muted-foreground">Zum Speichern von Sperrflächen bitte anmelden.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
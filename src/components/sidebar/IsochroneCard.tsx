@@ -0,0 +1,119 @@
+import { useState } from "react";
+import { Timer, EyeOff } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toApiError } from "@/lib/route-api";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+
+export interface IsochroneFeature {
+  type: "Feature";
+  properties: { range: number; unit: "min" | "km" };
+  geometry: { type: "Polygon"; coordinates: [number, number][][] };
+}
+
+type IsochroneResponse = {
+  isochrones?: { type: "FeatureCollection"; features: IsochroneFeature[] };
+};
+
+interface IsochroneCardProps {
+  /** Vorbelegung des Mittelpunkts, z.B. die Startadresse */
+  defaultAddress: string;
+  mode: string;
+  /** Länderfilter und Ortsbezug fürs Geocoding */
+  countries?: string[];
+  bias?: { lat: number; lng: number };
+  hasResult: boolean;
+  onResult: (features: IsochroneFeature[] | null) => void;
+}
+
+export function IsochroneCard({ defaultAddress, mode, countries, bias, hasResult, onResult }: IsochroneCardProps) {
+  const [address, setAddress] = useState("");
+  const [rangeType, setRangeType] = useState<"time" | "distance">("time");
+  const [budgets, setBudgets] = useState("10; 20; 30");
+  const [isLoading, setIsLoading] = useState(false);
+
+  const calculate = async () => {
+    const center = address.trim() || defaultAddress;
+    // Komma ist Dezimaltrennzeichen ("7,5"), Budgets trennen ";" oder Leerzeichen
+    const ranges = budgets
+      .split(/[;\s]+/)
+      .map((v) => parseFloat(v.replace(",", ".")))
+      .filter((v) => Number.isFinite(v) && v > 0);
+    if (!center || ranges.length === 0) {
+      toast.error("Bitte Mittelpunkt und mindestens ein Budget angeben.");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke<IsochroneResponse>("isochrones", {
+        body: { address: center, mode, rangeType, ranges, countries, bias },
+      });
+      if (error) throw await toApiError(error);
+      if (!data?.isochrones) throw new Error("Leere Antwort vom Server");
+      onResult(data.isochrones.features);
+    } catch (err: unknown) {
+      console.error("Fehler bei Erreichbarkeitsberechnung:", err);
+      toast.error("Erreichbarkeit konnte nicht berechnet werden", {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Timer className="h-4 w-4" />
+          Erreichbarkeit
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Input
+          placeholder={defaultAddress || "Mittelpunkt (Adresse)"}
+          value={address}
+          onChange={(e) => setAddress(e.target.value)}
+          className="text-sm"
+        />
+        <div className="flex gap-2">
+          <Button
+            variant={rangeType === "time" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setRangeType("time")}
+            className="flex-1"
+          >
+            Minuten
+          </Button>
+          <Button
+            variant={rangeType === "distance" ? "default" : "outline"}
+            size="sm"
+            onClick={() => setRangeType("distance")}
+            className="flex-1"
+          >
+            Kilometer
+          </Button>
+        </div>
+        <Input
+          placeholder="z.B. 10; 20; 7,5"
+          value={budgets}
+          onChange={(e) => setBudgets(e.target.value)}
+          className="text-sm"
+        />
+        <div className="flex gap-2">
+          <Button size="sm" className="flex-1" onClick={calculate} disabled={isLoading}>
+            {isLoading ? "Berechne..." : "Anzeigen"}
+          </Button>
+          {hasResult && (
+            <Button size="sm" variant="outline" onClick={() => onResult(null)} title="Ausblenden">
+              <EyeOff className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,89 @@
+import { Repeat } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+
+export interface LoopTourSettings {
+  enabled: boolean;
+  target: "length" | "duration";
+  /** Kilometer bzw. Minuten, wie eingegeben */
+  amount: string;
+  /** Leer = Server würfelt */
+  seed: string;
+}
+
+interface LoopTourCardProps {
+  value: LoopTourSettings;
+  onChange: (value: LoopTourSettings) => void;
+}
+
+// Rundtour ab dem Startpunkt (z.B. Stadtrundgang); Ziel und Zwischenziele entfallen
+export function LoopTourCard({ value, onChange }: LoopTourCardProps) {
+  const update = (patch: Partial<LoopTourSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Repeat className="h-4 w-4" />
+          Rundtour
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="loop-enabled" className="text-sm">Rundtour ab Start erzeugen</Label>
+          <Switch id="loop-enabled" checked={value.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+        </div>
+
+        {value.enabled && (
+          <>
+            <div className="flex gap-2">
+              <Button
+                variant={value.target === "length" ? "default" : "outline"}
+                size="sm"
+                onClick={() => update({ target: "length" })}
+                className="flex-1"
+              >
+                Länge (km)
+              </Button>
+              <Button
+                variant={value.target === "duration" ? "default" : "outline"}
+                size="sm"
+                onClick={() => update({ target: "duration" })}
+                className="flex-1"
+              >
+                Dauer (min)
+              </Button>
+            </div>
+            <Input
+              type="number"
+              min={0}
+              step={value.target === "length" ? "0.5" : "5"}
+              placeholder={value.target === "length" ? "z.B. 5" : "z.B. 90"}
+              value={value.amount}
+              onChange={(e) => update({ amount: e.target.value })}
+              className="text-sm"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="loop-seed" className="text-xs">Seed (optional, für Variationen)</Label>
+              <Input
+                id="loop-seed"
+                type="number"
+                min={0}
+                step="1"
+                value={value.seed}
+                onChange={(e) => update({ seed: e.target.value })}
+                className="text-sm"
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Gleicher Seed ergibt dieselbe Runde. Ziel und Zwischenziele werden ignoriert.
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
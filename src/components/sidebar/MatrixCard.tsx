@@ -0,0 +1,185 @@
+import { useState } from "react";
+import { Grid3x3, Download } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { toApiError } from "@/lib/route-api";
+import type { Waypoint } from "@/types/route";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "sonner";
+
+interface MatrixLocation {
+  id?: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+type MatrixResponse = {
+  origins?: MatrixLocation[];
+  destinations?: MatrixLocation[];
+  distancesMeters?: (number | null)[][];
+  durationsSeconds?: (number | null)[][];
+};
+
+interface MatrixCardProps {
+  /** Standard-Startpunkte: die aktuellen Wegpunkte */
+  waypoints: Waypoint[];
+  mode: string;
+  /** Länderfilter und Ortsbezug fürs Geocoding */
+  countries?: string[];
+  bias?: { lat: number; lng: number };
+}
+
+const formatCell = (value: number | null, metric: "duration" | "distance") => {
+  if (value == null) return "–";
+  return metric === "duration"
+    ? `${Math.round(value / 60)} min`
+    : `${(value / 1000).toFixed(1).replace(".", ",")} km`;
+};
+
+export function MatrixCard({ waypoints, mode, countries, bias }: MatrixCardProps) {
+  const [destinationText, setDestinationText] = useState("");
+  const [metric, setMetric] = useState<"duration" | "distance">("duration");
+  const [result, setResult] = useState<MatrixResponse | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const origins = waypoints.filter((w) => w.address.trim());
+
+  const calculate = async () => {
+    if (!origins.length) {
+      toast.error("Bitte zuerst Wegpunkte eingeben.");
+      return;
+    }
+    // Eigene Ziele: eine Adresse pro Zeile; leer = Wegpunkte untereinander
+    const destinations = destinationText
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean)
+      .map((address, i) => ({ id: `ziel-${i + 1}`, address }));
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke<MatrixResponse>("matrix", {
+        body: {
+          origins: origins.map(({ id, address, lat, lng }) => ({ id, address, lat, lng })),
+          destinations: destinations.length ? destinations : undefined,
+          mode,
+          countries,
+          bias,
+        },
+      });
+      if (error) throw await toApiError(error);
+      if (!data?.durationsSeconds) throw new Error("Leere Antwort vom Server");
+      setResult(data);
+    } catch (err: unknown) {
+      console.error("Fehler bei Matrixberechnung:", err);
+      toast.error("Matrix konnte nicht berechnet werden", {
+        description: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const rowLabel = (loc: MatrixLocation) =>
+    waypoints.find((w) => w.id === loc.id)?.label ?? loc.address ?? loc.id ?? "";
+  const values = metric === "duration" ? result?.durationsSeconds : result?.distancesMeters;
+
+  // CSV für Tabellenkalkulationen (Semikolon wegen deutscher Excel-Einstellungen)
+  const exportCsv = () => {
+    if (!result?.origins || !result.destinations || !values) return;
+    const escape = (v: string) => `"${v.replace(/"/g, '""')}"`;
+    const header = ["", ...result.destinations.map((d) => escape(d.address ?? rowLabel(d)))];
+    const rows = result.origins.map((o, i) => [
+      escape(o.address ?? rowLabel(o)),
+      ...values[i].map((v) =>
+        v == null ? "" : metric === "duration" ? String(Math.round(v / 60)) : (v / 1000).toFixed(2).replace(".", ",")
+      ),
+    ]);
+    const csv = [header, ...rows].map((r) => r.join(";")).join("\n");
+    const url = URL.createObjectURL(new Blob([csv], { type: "text/csv;charset=utf-8" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = metric === "duration" ? "fahrzeiten-min.csv" : "distanzen-km.csv";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Grid3x3 className="h-4 w-4" />
+          Distanzmatrix
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <Textarea
+          placeholder="Ziele (eine Adresse pro Zeile) – leer: Wegpunkte untereinander"
+          value={destinationText}
+          onChange={(e) => setDestinationText(e.target.value)}
+          className="text-sm min-h-[60px]"
+        />
+        <Button size="sm" className="w-full" onClick={calculate} disabled={isLoading}>
+          {isLoading ? "Berechne..." : "Matrix berechnen"}
+        </Button>
+
+        {result?.origins && result.destinations && values && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <Button
+                variant={metric === "duration" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setMetric("duration")}
+                className="flex-1"
+              >
+                Zeit
+              </Button>
+              <Button
+                variant={metric === "distance" ? "default" : "outline"}
+                size="sm"
+                onClick={() => setMetric("distance")}
+                className="flex-1"
+              >
+                Distanz
+              </Button>
+              <Button variant="outline" size="sm" onClick={exportCsv} title="Als CSV exportieren">
+                <Download className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="overflow-x-auto">
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 px-2">von \ nach</TableHead>
+                    {result.destinations.map((d, j) => (
+                      <TableHead key={j} className="h-8 px-2 whitespace-nowrap" title={d.address}>
+                        {rowLabel(d)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {result.origins.map((o, i) => (
+                    <TableRow key={i}>
+                      <TableCell className="px-2 py-1 font-medium whitespace-nowrap" title={o.address}>
+                        {rowLabel(o)}
+                      </TableCell>
+                      {values[i].map((v, j) => (
+                        <TableCell key={j} className="px-2 py-1 whitespace-nowrap">
+                          {formatCell(v, metric)}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
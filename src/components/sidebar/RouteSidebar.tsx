@@ -1,6 +1,5 @@
 import { useState } from "react";
-import { Plus, Navigation, MapPin, Car, User, Settings, BarChart3, AlertTriangle } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
+import { Plus, Navigation, MapPin, Car, Truck, Bike, Zap, Gauge, User, Settings, BarChart3, AlertTriangle, Shuffle, Check, X, Clock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Link } from "react-router-dom";
 import { Input } from "@/components/ui/input";
@@ -9,28 +8,57 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
+import { VehicleProfileCard, type VehicleDimensions } from "./VehicleProfileCard";
+import { RouteSteps } from "./RouteSteps";
+import { IsochroneCard, type IsochroneFeature } from "./IsochroneCard";
+import { MatrixCard } from "./MatrixCard";
+import { AddressCombobox, type MapViewport } from "./AddressCombobox";
+import { AuthCard } from "./AuthCard";
+import { AvoidAreasCard } from "./AvoidAreasCard";
+import { LoopTourCard, type LoopTourSettings } from "./LoopTourCard";
+import { parseCountryList, useGeocodeCountries } from "@/hooks/use-geocode-countries";
 // 👉 Sonner-Toast (weil in App.tsx <Sonner /> montiert ist)
 import { toast } from "sonner";
-
-interface Waypoint {
-  id: string;
-  label: string;
-  address: string;
-  lat?: number;
-  lng?: number;
-}
-
-interface RouteData {
-  distance: string;
-  duration: string;
-  instructions: string[];
-  geometry?: any; // GeoJSON LineString (LngLat) ODER [lat,lng][] im Fallback
-  waypoints?: Waypoint[];
-  // numerische Felder (optional)
-  distanceMeters?: number;
-  distanceKm?: number;
-  durationSeconds?: number;
-}
+import { ERROR_MESSAGES, isRouteOk, requestRoute, RouteApiError } from "@/lib/route-api";
+import { AVOID_FEATURES_BY_MODE, AVOID_FEATURES_BY_PROVIDER } from "@contract";
+import type {
+  AvoidArea,
+  AvoidFeature,
+  Confidence,
+  GeocodeAmbiguity,
+  GeocodeCandidate,
+  LineString,
+  RouteData,
+  RouteOptimization,
+  StopEta,
+  TravelMode,
+  Waypoint,
+} from "@/types/route";
+
+const MODE_OPTIONS: { value: TravelMode; label: string; icon: typeof Car }[] = [
+  { value: "car", label: "Auto", icon: Car },
+  { value: "truck", label: "LKW", icon: Truck },
+  { value: "walking", label: "Zu Fuß", icon: User },
+  { value: "bike", label: "Fahrrad", icon: Bike },
+  { value: "ebike", label: "E-Bike", icon: Zap },
+  { value: "roadbike", label: "Rennrad", icon: Gauge },
+];
+
+const CYCLING_MODES: TravelMode[] = ["bike", "ebike", "roadbike"];
+
+// Reihenfolge der Schalter; angezeigt werden nur die für das Profil verfügbaren
+const AVOID_OPTIONS: { feature: AvoidFeature; label: string }[] = [
+  { feature: "tollways", label: "Maut vermeiden" },
+  { feature: "highways", label: "Autobahnen vermeiden" },
+  { feature: "ferries", label: "Fähren vermeiden" },
+  { feature: "fords", label: "Furten vermeiden" },
+  { feature: "unpaved", label: "Unbefestigte Wege vermeiden" },
+  { feature: "steps", label: "Treppen vermeiden" },
+  { feature: "borders", label: "Grenzübertritte vermeiden" },
+];
+
+const STEEPNESS_LABELS = ["Möglichst flach", "Moderat", "Sportlich", "Steigungen egal"];
 
 interface RouteSidebarProps {
   waypoints: Waypoint[];
@@ -39,36 +67,19 @@ interface RouteSidebarProps {
   setRouteData: (data: RouteData) => void;
   isCalculating: boolean;
   setIsCalculating: (calculating: boolean) => void;
+  /** Kartenausschnitt auf einen Punkt [lat,lng] setzen (z.B. Manöver) */
+  onFocusPoint?: (point: [number, number]) => void;
+  isochrones?: IsochroneFeature[] | null;
+  setIsochrones?: (features: IsochroneFeature[] | null) => void;
+  /** Aktueller Kartenausschnitt als Ortsbezug für Adressvorschläge */
+  viewport?: MapViewport | null;
+  /** Auf der Karte gezeichnete Sperrflächen */
+  avoidAreas: AvoidArea[];
+  setAvoidAreas: (areas: AvoidArea[]) => void;
+  isDrawingAvoidArea: boolean;
+  setIsDrawingAvoidArea: (drawing: boolean) => void;
 }
 
-// ---- Server-Response-Typen passend zur Supabase Function ----
-type ServerRouteOk = {
-  distance: string;
-  duration: string;
-  distanceMeters?: number;
-  distanceKm?: number;
-  durationSeconds?: number;
-  distanceSource?: "summary" | "geometry";
-  geometry: { type: "LineString"; coordinates: [number, number][] };
-  waypoints: Waypoint[];
-  fallback?: false;
-};
-
-type ServerRouteFallback = {
-  distance: string;
-  duration: string;
-  distanceMeters?: number;
-  distanceKm?: number;
-  durationSeconds?: number;
-  geometry: [number, number][];
-  waypoints: Waypoint[];
-  fallback: true;
-  errorMessage?: string;
-  debug?: any;
-};
-
-type ServerRouteResponse = ServerRouteOk | ServerRouteFallback;
-
 // ---- Helpers: Distanz client-seitig aus Geometrie berechnen ----
 function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
   const R = 6371;
@@ -81,36 +92,39 @@ function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
   return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
 }
 
-function kmFromGeometry(geometry: any): number | null {
-  try {
-    // A) GeoJSON LineString [lon,lat][]
-    if (geometry?.type === "LineString" && Array.isArray(geometry.coordinates)) {
-      const coords = geometry.coordinates as [number, number][];
-      let sum = 0;
-      for (let i = 0; i < coords.length - 1; i++) {
-        const [lon1, lat1] = coords[i];
-        const [lon2, lat2] = coords[i + 1];
-        if ([lon1, lat1, lon2, lat2].every(Number.isFinite)) {
-          sum += haversineKm(lat1, lon1, lat2, lon2);
-        }
-      }
-      return sum;
-    }
-    // B) Fallback: [lat,lng][]
-    if (Array.isArray(geometry)) {
-      const coords = geometry as [number, number][];
-      let sum = 0;
-      for (let i = 0; i < coords.length - 1; i++) {
-        const [lat1, lon1] = coords[i];
-        const [lat2, lon2] = coords[i + 1];
-        if ([lon1, lat1, lon2, lat2].every(Number.isFinite)) {
-          sum += haversineKm(lat1, lon1, lat2, lon2);
-        }
-      }
-      return sum;
+function kmFromGeometry(geometry: LineString | undefined): number | null {
+  if (!geometry) return null;
+  // GeoJSON LineString [lon,lat][]
+  let sum = 0;
+  const coords = geometry.coordinates;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [lon1, lat1] = coords[i];
+    const [lon2, lat2] = coords[i + 1];
+    if ([lon1, lat1, lon2, lat2].every(Number.isFinite)) {
+      sum += haversineKm(lat1, lon1, lat2, lon2);
     }
-  } catch {/* noop */}
-  return null;
+  }
+  return sum;
+}
+
+function formatClock(iso: string | null | undefined): string {
+  if (!iso) return "";
+  return new Date(iso).toLocaleTimeString("de-DE", { hour: "2-digit", minute: "2-digit" });
+}
+
+function formatMinutes(seconds: number): string {
+  const mins = Math.round(seconds / 60);
+  return mins >= 60 ? `${Math.floor(mins / 60)}h ${mins % 60}min` : `${mins}min`;
+}
+
+// Nach dem Umsortieren: erster Punkt = Start, letzter = Ziel, dazwischen neu nummerieren
+function relabelWaypoints(list: Waypoint[]): Waypoint[] {
+  return list.map((w, i) => {
+    if (i === 0) return { ...w, id: "start", label: "Start" };
+    if (i === list.length - 1) return { ...w, id: "end", label: "Ziel" };
+    const id = w.id === "start" || w.id === "end" ? `waypoint-${Date.now()}-${i}` : w.id;
+    return { ...w, id, label: `Zwischenziel ${i}` };
+  });
 }
 
 function formatKm(km: number | null | undefined): string {
@@ -120,6 +134,11 @@ function formatKm(km: number | null | undefined): string {
   return `${String(display).replace(".", ",")} km`;
 }
 
+// Geschätzte Werte (Geschwindigkeitsmodell, Ersatzroute) mit "≈" kennzeichnen
+function approx(value: string, confidence: Confidence | undefined): string {
+  return confidence && confidence !== "high" ? `≈ ${value}` : value;
+}
+
 export function RouteSidebar({
   waypoints,
   setWaypoints,
@@ -127,12 +146,55 @@ export function RouteSidebar({
   setRouteData,
   isCalculating,
   setIsCalculating,
+  onFocusPoint,
+  isochrones,
+  setIsochrones,
+  viewport,
+  avoidAreas,
+  setAvoidAreas,
+  isDrawingAvoidArea,
+  setIsDrawingAvoidArea,
 }: RouteSidebarProps) {
-  const [mode, setMode] = useState<"car" | "walking">("car");
-  const [avoidTolls, setAvoidTolls] = useState(false);
-  const [avoidHighways, setAvoidHighways] = useState(false);
+  const [mode, setMode] = useState<TravelMode>("car");
+  const [avoid, setAvoid] = useState<Partial<Record<AvoidFeature, boolean>>>({});
+  // Provider der letzten Route; vorher der Server-Standard ORS
+  const [routeProvider, setRouteProvider] = useState<keyof typeof AVOID_FEATURES_BY_PROVIDER>("ors");
   const [fastestRoute, setFastestRoute] = useState(true);
+  const [steepnessDifficulty, setSteepnessDifficulty] = useState(1);
+  const [vehicle, setVehicle] = useState<VehicleDimensions>({});
+  const [routeWarnings, setRouteWarnings] = useState<string[]>([]);
+  const [timeMode, setTimeMode] = useState<"departure" | "arrival">("departure");
+  const [timeValue, setTimeValue] = useState(""); // datetime-local, Ortszeit
   const [fallbackNotice, setFallbackNotice] = useState<string | null>(null);
+  const [optimizeOrder, setOptimizeOrder] = useState(false);
+  const [roundTrip, setRoundTrip] = useState(false);
+  const [loopTour, setLoopTour] = useState<LoopTourSettings>({
+    enabled: false,
+    target: "length",
+    amount: "5",
+    seed: "",
+  });
+  const [showAlternatives, setShowAlternatives] = useState(false);
+  const [bypassCache, setBypassCache] = useState(false);
+  const [orderProposal, setOrderProposal] = useState<RouteOptimization | null>(null);
+  const [ambiguities, setAmbiguities] = useState<GeocodeAmbiguity[]>([]);
+  // Routenpunkte, die der Server abgelehnt hat (z.B. Adresse nicht gefunden)
+  const [failedWaypointIds, setFailedWaypointIds] = useState<string[]>([]);
+  const [rateLimitNotice, setRateLimitNotice] = useState<string | null>(null);
+  const { countries, setCountries } = useGeocodeCountries();
+  const [countriesText, setCountriesText] = useState(() => countries.join(", "));
+  const bias = viewport ? { lat: viewport.lat, lng: viewport.lng } : undefined;
+
+  const isDriving = mode === "car" || mode === "truck";
+  const isCycling = CYCLING_MODES.includes(mode);
+  const avoidOptions = AVOID_OPTIONS.filter(
+    (o) =>
+      AVOID_FEATURES_BY_MODE[mode].includes(o.feature) &&
+      AVOID_FEATURES_BY_PROVIDER[routeProvider].includes(o.feature),
+  );
+  // Nur eingeblendete Schalter mitschicken, ausgeblendete bleiben gemerkt
+  const avoidActive = (feature: AvoidFeature) =>
+    !!avoid[feature] && avoidOptions.some((o) => o.feature === feature);
 
   const addWaypoint = () => {
     const waypointNumber = waypoints.length - 1;
@@ -150,25 +212,130 @@ export function RouteSidebar({
     setWaypoints(waypoints.filter((w) => w.id !== id));
   };
 
+  // Freitext: alte Koordinaten verwerfen, damit serverseitig neu geocodet wird
   const updateWaypointAddress = (id: string, address: string) => {
-    setWaypoints(waypoints.map((w) => (w.id === id ? { ...w, address } : w)));
+    setWaypoints(waypoints.map((w) => (w.id === id ? { ...w, address, lat: undefined, lng: undefined } : w)));
+    setAmbiguities((prev) => prev.filter((a) => a.id !== id));
+    setFailedWaypointIds((prev) => prev.filter((f) => f !== id));
+  };
+
+  const selectWaypointSuggestion = (id: string, suggestion: Pick<GeocodeCandidate, "label" | "lat" | "lng">) => {
+    setAmbiguities((prev) => prev.filter((a) => a.id !== id));
+    setFailedWaypointIds((prev) => prev.filter((f) => f !== id));
+    setWaypoints(
+      waypoints.map((w) =>
+        w.id === id ? { ...w, address: suggestion.label, lat: suggestion.lat, lng: suggestion.lng } : w
+      )
+    );
+  };
+
+  const updateWaypointDwell = (id: string, raw: string) => {
+    const minutes = parseInt(raw, 10);
+    setWaypoints(
+      waypoints.map((w) => (w.id === id ? { ...w, dwellMinutes: Number.isFinite(minutes) && minutes > 0 ? minutes : undefined } : w))
+    );
   };
 
-  const calculateRoute = async () => {
+  // ETAs je Waypoint; bei Rundreise ist der letzte Eintrag die Rückkehr zum Start
+  const etas = routeData?.etas ?? [];
+  const ambiguityById = new Map(ambiguities.map((a) => [a.id, a]));
+  const etaById = new Map<string, StopEta>();
+  etas.forEach((eta) => {
+    if (!etaById.has(eta.waypointId)) etaById.set(eta.waypointId, eta);
+  });
+  const returnEta =
+    etas.length > 1 && etas[etas.length - 1].waypointId === etas[0].waypointId ? etas[etas.length - 1] : null;
+
+  const acceptOrderProposal = () => {
+    const order = orderProposal?.order;
+    if (!order) return;
+    const byId = new Map(waypoints.map((w) => [w.id, w]));
+    const ordered = order.map((id) => byId.get(id)).filter(Boolean) as Waypoint[];
+    // Punkte, die der Server nicht routen konnte, bleiben hinten dran
+    const missing = waypoints.filter((w) => !order.includes(w.id));
+    setWaypoints(relabelWaypoints([...ordered, ...missing]));
+    setOrderProposal(null);
+    // IDs von Start/Ziel haben sich ggf. geändert – ETAs neu berechnen lassen
+    if (routeData) setRouteData({ ...routeData, etas: undefined });
+    toast.success("Neue Reihenfolge übernommen");
+  };
+
+  const rejectOrderProposal = () => {
+    setOrderProposal(null);
+    setOptimizeOrder(false);
+    // Route wieder in der eingegebenen Reihenfolge anzeigen
+    calculateRoute({ optimizeOrder: false });
+  };
+
+  const calculateRoute = async (overrides: { optimizeOrder?: boolean; loopSeed?: number } = {}) => {
     const startWaypoint = waypoints.find((w) => w.id === "start");
     const endWaypoint = waypoints.find((w) => w.id === "end");
-    if (!startWaypoint?.address || !endWaypoint?.address) {
+
+    // Rundtour (nur zu Fuß): Start plus Länge/Dauer, Ziel wird nicht gebraucht
+    const isLoop = mode === "walking" && loopTour.enabled;
+    const loopAmount = parseFloat(loopTour.amount.replace(",", "."));
+    const loopSeed = overrides.loopSeed ?? parseInt(loopTour.seed, 10);
+    if (isLoop) {
+      if (!startWaypoint?.address) {
+        toast.error("Bitte geben Sie eine Startadresse ein.");
+        return;
+      }
+      if (!Number.isFinite(loopAmount) || loopAmount <= 0) {
+        toast.error("Bitte eine Länge bzw. Dauer für die Rundtour angeben.");
+        return;
+      }
+    } else if (!startWaypoint?.address || !endWaypoint?.address) {
       toast.error("Bitte geben Sie Start- und Zieladresse ein.");
       return;
     }
 
+    // datetime-local ist Ortszeit ohne Zone -> als ISO (UTC) an den Server
+    const scheduledTime = timeValue ? new Date(timeValue).toISOString() : undefined;
+
     setIsCalculating(true);
     setFallbackNotice(null);
+    setOrderProposal(null);
+    setRouteWarnings([]);
+    setAmbiguities([]);
+    setFailedWaypointIds([]);
 
     try {
-      const { data, error } = await supabase.functions.invoke<ServerRouteResponse>("calculate-route", {
-        body: { waypoints, mode, avoidTolls, avoidHighways, fastestRoute },
+      const data = await requestRoute({
+        waypoints: isLoop && startWaypoint ? [startWaypoint] : waypoints,
+        mode,
+        avoidTolls: avoidActive("tollways"),
+        avoidHighways: avoidActive("highways"),
+        fastestRoute,
+        avoidSteps: avoidActive("steps"),
+        avoidFerries: avoidActive("ferries"),
+        avoidFords: avoidActive("fords"),
+        avoidUnpaved: avoidActive("unpaved"),
+        avoidBorders: avoidActive("borders"),
+        avoidAreas: avoidAreas.length ? avoidAreas : undefined,
+        steepnessDifficulty: isCycling ? steepnessDifficulty : undefined,
+        vehicle: mode === "truck" ? vehicle : undefined,
+        departureTime: timeMode === "departure" ? scheduledTime : undefined,
+        arrivalTime: timeMode === "arrival" ? scheduledTime : undefined,
+        optimizeOrder: isLoop ? undefined : overrides.optimizeOrder ?? optimizeOrder,
+        roundTrip: isLoop ? undefined : roundTrip,
+        alternatives: showAlternatives,
+        bypassCache,
+        countries,
+        bias,
+        loop: isLoop
+          ? {
+              lengthMeters: loopTour.target === "length" ? Math.round(loopAmount * 1000) : undefined,
+              durationMinutes: loopTour.target === "duration" ? loopAmount : undefined,
+              seed: Number.isInteger(loopSeed) && loopSeed >= 0 ? loopSeed : undefined,
+            }
+          : undefined,
       });
+      // Erfolgreich berechnete Route (undefined = Luftlinien-Fallback)
+      const summary = isRouteOk(data) ? data : undefined;
+      // Verwendeten Seed übernehmen, damit "Route berechnen" dieselbe Runde liefert
+      const loopInfo = summary?.loop;
+      if (loopInfo) setLoopTour((prev) => ({ ...prev, seed: String(loopInfo.seed) }));
+      if (summary) setRouteProvider(summary.provider);
 
       // Debug-Toast mit den wichtigsten Feldern
       toast("Debug Route", 
@@ -176,30 +343,50 @@ export function RouteSidebar({
           description: (
             <pre className="whitespace-pre-wrap text-xs">
               distance: {data.distance ?? "?"}{"\n"}
-              distanceKm: {(data as any).distanceKm ?? "?"}{"\n"}
-              geom-type: {data.geometry?.type || (Array.isArray(data.geometry) ? "array" : "?")}
+              distanceKm: {summary?.distanceKm ?? "?"}{"\n"}
+              geom-type: {data.geometry.type}
             </pre>
           ),
         }
       );
 
-      if (error) throw new Error(error.message || "Unbekannter Serverfehler");
-      if (!data) throw new Error("Leere Antwort vom Server");
+      const geocodeAmbiguities = data.geocoding?.ambiguities ?? [];
+      setAmbiguities(geocodeAmbiguities);
+      if (geocodeAmbiguities.length) {
+        toast.message("Mehrdeutige Adressen", {
+          description: "Bitte bei den markierten Routenpunkten den gemeinten Ort wählen.",
+        });
+      }
 
-      if (data.fallback) {
+      if (!isRouteOk(data)) {
         const msg =
-          data.errorMessage ??
-          "ORS konnte keine Route liefern – es wird nur die Luftlinie angezeigt.";
+          data.method === "road-graph"
+            ? `${ERROR_MESSAGES[data.code]} – Ersatzroute aus dem Offline-Straßennetz, Zeiten und Strecke sind ungenau.`
+            : `${ERROR_MESSAGES[data.code]} – es wird nur die Luftlinie angezeigt.`;
         setFallbackNotice(msg);
         toast.message("Routenberechnung unvollständig", { description: msg });
-        if (import.meta.env.DEV && (data as any).debug) {
-          console.warn("[ORS DEBUG]", (data as any).debug);
+        if (import.meta.env.DEV && data.debug) {
+          console.warn("[ORS DEBUG]", data.debug);
         }
       } else {
-        const src = (data as any).distanceSource === "geometry" ? "Geometrie" : "Zusammenfassung";
+        const src = data.distanceSource === "geometry" ? "Geometrie" : "Zusammenfassung";
+        const cached = data.cache?.status === "hit" ? " • aus dem Cache" : "";
         toast.success("Route berechnet", {
-          description: `Entfernung: ${data.distance} • Fahrzeit: ${data.duration} • Quelle: ${src}`,
+          description: `Entfernung: ${data.distance} • Fahrzeit: ${approx(data.duration, data.confidence)} • Quelle: ${src}${cached}`,
         });
+
+        const warnings = data.warnings;
+        setRouteWarnings(warnings);
+        if (warnings.length) {
+          toast.warning("Nicht alle Einschränkungen berücksichtigt", { description: warnings.join(" ") });
+        }
+
+        const optimization = data.optimization;
+        if (optimization?.applied && optimization.changed) {
+          setOrderProposal(optimization);
+        } else if (optimization && !optimization.applied && optimization.reason) {
+          toast.message("Reihenfolge nicht optimiert", { description: optimization.reason });
+        }
       }
 
       // --- Distanz-Absicherung im Frontend ---
@@ -211,10 +398,7 @@ export function RouteSidebar({
         distanceStr.startsWith("0");
 
       // Numerisch bevorzugen, sonst aus Geometrie
-      let ensuredKm: number | undefined =
-        typeof (data as any).distanceKm === "number"
-          ? (data as any).distanceKm
-          : kmFromGeometry((data as any).geometry) ?? undefined;
+      const ensuredKm: number | undefined = summary?.distanceKm ?? kmFromGeometry(data.geometry) ?? undefined;
 
       if (looksZero && ensuredKm && ensuredKm > 0) {
         const fixed = formatKm(ensuredKm);
@@ -232,14 +416,30 @@ export function RouteSidebar({
         instructions: data.instructions ?? [],
         geometry: data.geometry,
         waypoints: data.waypoints ?? waypoints,
-        distanceMeters: (data as any).distanceMeters,
-        distanceKm: ensuredKm ?? (data as any).distanceKm,
-        durationSeconds: (data as any).durationSeconds,
+        distanceMeters: summary?.distanceMeters,
+        distanceKm: ensuredKm,
+        durationSeconds: summary?.durationSeconds,
+        confidence: data.confidence,
+        loop: summary?.loop,
+        alternatives: summary?.alternatives,
+        selectedAlternative: 0,
+        legs: summary?.legs,
+        etas: summary?.etas,
+        degraded: data.fallback ? data.method : undefined,
       });
 
       console.log("Route berechnet:", data);
     } catch (err: any) {
       console.error("Fehler bei Routenberechnung:", err);
+      if (err instanceof RouteApiError) {
+        setFailedWaypointIds(err.waypointIds);
+        if (err.code === "RATE_LIMITED") {
+          // Button bis zum Ablauf des Fensters sperren
+          const wait = err.retryAfterSeconds ?? 60;
+          setRateLimitNotice(`Zu viele Anfragen – bitte in ${wait} s erneut versuchen.`);
+          setTimeout(() => setRateLimitNotice(null), wait * 1000);
+        }
+      }
       toast.error("Fehler bei der Routenberechnung", {
         description: err?.message ?? String(err),
       });
@@ -248,8 +448,13 @@ export function RouteSidebar({
     }
   };
 
+  // Andere Rundtour gleicher Länge: neuer Zufalls-Seed
+  const shuffleLoop = () => calculateRoute({ loopSeed: Math.floor(Math.random() * 2 ** 31) });
+
   return (
     <div className="w-80 bg-nav-surface border-r border-nav-border h-full overflow-y-auto p-4 space-y-6">
+      <AuthCard />
+
       {/* Mode Selection */}
       <Card>
         <CardHeader className="pb-3">
@@ -259,25 +464,19 @@ export function RouteSidebar({
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="flex gap-2">
-            <Button
-              variant={mode === "car" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setMode("car")}
-              className="flex-1"
-            >
-              <Car className="h-4 w-4 mr-2" />
-              Auto
-            </Button>
-            <Button
-              variant={mode === "walking" ? "default" : "outline"}
-              size="sm"
-              onClick={() => setMode("walking")}
-              className="flex-1"
-            >
-              <User className="h-4 w-4 mr-2" />
-              Zu Fuß
-            </Button>
+          <div className="grid grid-cols-3 gap-2">
+            {MODE_OPTIONS.map(({ value, label, icon: Icon }) => (
+              <Button
+                key={value}
+                variant={mode === value ? "default" : "outline"}
+                size="sm"
+                onClick={() => setMode(value)}
+                className="px-2"
+              >
+                <Icon className="h-4 w-4 mr-1" />
+                {label}
+              </Button>
+            ))}
           </div>
         </CardContent>
       </Card>
@@ -300,6 +499,13 @@ export function RouteSidebar({
                   }`}
                 />
                 <Label className="text-sm font-medium">{waypoint.label}</Label>
+                {etaById.get(waypoint.id) && (
+                  <Badge variant="outline" className="text-xs font-normal">
+                    {index === 0
+                      ? `ab ${formatClock(etaById.get(waypoint.id)?.departure)}`
+                      : `an ${formatClock(etaById.get(waypoint.id)?.arrival)}`}
+                  </Badge>
+                )}
                 {index > 0 && index < waypoints.length - 1 && (
                   <Button
                     variant="ghost"
@@ -311,12 +517,47 @@ export function RouteSidebar({
                   </Button>
                 )}
               </div>
-              <Input
-                placeholder="Adresse eingeben..."
-                value={waypoint.address}
-                onChange={(e) => updateWaypointAddress(waypoint.id, e.target.value)}
-                className="text-sm"
-              />
+              <div className="flex gap-2">
+                <div className="flex-1">
+                  <AddressCombobox
+                    value={waypoint.address}
+                    onChange={(address) => updateWaypointAddress(waypoint.id, address)}
+                    onSelect={(suggestion) => selectWaypointSuggestion(waypoint.id, suggestion)}
+                    viewport={viewport}
+                    countries={countries}
+                    invalid={failedWaypointIds.includes(waypoint.id)}
+                    className="text-sm"
+                  />
+                </div>
+                {index > 0 && index < waypoints.length - 1 && (
+                  <Input
+                    type="number"
+                    min={0}
+                    placeholder="min"
+                    title="Aufenthalt in Minuten"
+                    value={waypoint.dwellMinutes ?? ""}
+                    onChange={(e) => updateWaypointDwell(waypoint.id, e.target.value)}
+                    className="text-sm w-20"
+                  />
+                )}
+              </div>
+              {ambiguityById.get(waypoint.id) && (
+                <div className="rounded-md border border-amber-300 bg-amber-50 p-2 space-y-1 dark:bg-amber-950/30">
+                  <p className="text-xs text-amber-800 dark:text-amber-200">Mehrere Treffer – gemeint ist:</p>
+                  {ambiguityById.get(waypoint.id)?.candidates.map((candidate, i) => (
+                    <Button
+                      key={`${candidate.lat},${candidate.lng}`}
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => selectWaypointSuggestion(waypoint.id, candidate)}
+                      className="h-auto w-full justify-start whitespace-normal py-1 text-left text-xs"
+                    >
+                      {i === 0 && <Badge variant="secondary" className="mr-2 text-[10px]">verwendet</Badge>}
+                      {candidate.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
             </div>
           ))}
 
@@ -324,11 +565,52 @@ export function RouteSidebar({
             <Plus className="h-4 w-4 mr-2" />
             Zwischenziel hinzufügen
           </Button>
+
+          <div className="space-y-1 pt-2">
+            <Label htmlFor="geocode-countries" className="text-sm">Länder für die Adresssuche</Label>
+            <Input
+              id="geocode-countries"
+              placeholder="alle (z.B. de, at, ch)"
+              value={countriesText}
+              onChange={(e) => setCountriesText(e.target.value)}
+              onBlur={() => {
+                const parsed = parseCountryList(countriesText);
+                setCountries(parsed);
+                setCountriesText(parsed.join(", "));
+              }}
+              className="text-sm"
+            />
+          </div>
+
+          <div className="flex items-center justify-between pt-2">
+            <Label htmlFor="optimize" className="text-sm">Reihenfolge optimieren</Label>
+            <Switch id="optimize" checked={optimizeOrder} onCheckedChange={setOptimizeOrder} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="roundtrip" className="text-sm">Rundreise (zurück zum Start)</Label>
+            <Switch id="roundtrip" checked={roundTrip} onCheckedChange={setRoundTrip} />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="alternatives" className="text-sm">Alternativrouten anzeigen</Label>
+            <Switch id="alternatives" checked={showAlternatives} onCheckedChange={setShowAlternatives} />
+          </div>
+          {showAlternatives && waypoints.length > 2 && (
+            <p className="text-xs text-muted-foreground">
+              Alternativen gibt es nur für Routen ohne Zwischenziele.
+            </p>
+          )}
+
+          <div className="flex items-center justify-between">
+            <Label htmlFor="bypass-cache" className="text-sm">Neu berechnen (Cache umgehen)</Label>
+            <Switch id="bypass-cache" checked={bypassCache} onCheckedChange={setBypassCache} />
+          </div>
         </CardContent>
       </Card>
 
       {/* Route Options */}
-      {mode === "car" && (
+      {(isDriving || isCycling || avoidOptions.length > 0) && (
         <Card>
           <CardHeader className="pb-3">
             <CardTitle className="flex items-center gap-2 text-base">
@@ -337,31 +619,184 @@ export function RouteSidebar({
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
-            <div className="flex items-center justify-between">
-              <Label htmlFor="fastest" className="text-sm">
-                {fastestRoute ? "Schnellste Route" : "Kürzeste Route"}
-              </Label>
-              <Switch id="fastest" checked={fastestRoute} onCheckedChange={setFastestRoute} />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <Label htmlFor="tolls" className="text-sm">Maut vermeiden</Label>
-              <Switch id="tolls" checked={avoidTolls} onCheckedChange={setAvoidTolls} />
-            </div>
-
-            <div className="flex items-center justify-between">
-              <Label htmlFor="highways" className="text-sm">Autobahnen vermeiden</Label>
-              <Switch id="highways" checked={avoidHighways} onCheckedChange={setAvoidHighways} />
-            </div>
+            {(isDriving || isCycling) && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="fastest" className="text-sm">
+                  {fastestRoute ? "Schnellste Route" : "Kürzeste Route"}
+                </Label>
+                <Switch id="fastest" checked={fastestRoute} onCheckedChange={setFastestRoute} />
+              </div>
+            )}
+
+            {avoidOptions.map(({ feature, label }) => (
+              <div key={feature} className="flex items-center justify-between">
+                <Label htmlFor={`avoid-${feature}`} className="text-sm">{label}</Label>
+                <Switch
+                  id={`avoid-${feature}`}
+                  checked={!!avoid[feature]}
+                  onCheckedChange={(checked) => setAvoid((prev) => ({ ...prev, [feature]: checked }))}
+                />
+              </div>
+            ))}
+
+            {isCycling && (
+              <>
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label className="text-sm">Steigungen</Label>
+                    <span className="text-xs text-muted-foreground">
+                      {STEEPNESS_LABELS[steepnessDifficulty]}
+                    </span>
+                  </div>
+                  <Slider
+                    min={0}
+                    max={3}
+                    step={1}
+                    value={[steepnessDifficulty]}
+                    onValueChange={([v]) => setSteepnessDifficulty(v)}
+                  />
+                </div>
+              </>
+            )}
           </CardContent>
         </Card>
       )}
 
+      {mode === "truck" && <VehicleProfileCard value={vehicle} onChange={setVehicle} />}
+
+      {mode === "walking" && <LoopTourCard value={loopTour} onChange={setLoopTour} />}
+
+      <AvoidAreasCard
+        areas={avoidAreas}
+        onChange={setAvoidAreas}
+        isDrawing={isDrawingAvoidArea}
+        onDrawingChange={setIsDrawingAvoidArea}
+      />
+
+      {/* Schedule */}
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Clock className="h-4 w-4" />
+            Zeitplanung
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex gap-2">
+            <Button
+              variant={timeMode === "departure" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTimeMode("departure")}
+              className="flex-1"
+            >
+              Abfahrt
+            </Button>
+            <Button
+              variant={timeMode === "arrival" ? "default" : "outline"}
+              size="sm"
+              onClick={() => setTimeMode("arrival")}
+              className="flex-1"
+            >
+              Ankunft
+            </Button>
+          </div>
+          <Input
+            type="datetime-local"
+            value={timeValue}
+            onChange={(e) => setTimeValue(e.target.value)}
+            className="text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Aufenthalte an Zwischenzielen fließen in die Ankunftszeiten ein.
+          </p>
+        </CardContent>
+      </Card>
+
       {/* Calculate Button */}
-      <Button size="lg" className="w-full" variant="navigation" onClick={calculateRoute} disabled={isCalculating}>
+      <Button
+        size="lg"
+        className="w-full"
+        variant="navigation"
+        onClick={() => calculateRoute()}
+        disabled={isCalculating || rateLimitNotice !== null}
+      >
         <Navigation className="h-4 w-4 mr-2" />
         {isCalculating ? "Berechne Route..." : "Route berechnen"}
       </Button>
+      {rateLimitNotice && (
+        <div className="flex items-center gap-2 text-destructive text-sm" role="alert">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {rateLimitNotice}
+        </div>
+      )}
+
+      {/* Order Proposal */}
+      {orderProposal?.order && (
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="flex items-center gap-2 text-base">
+              <Shuffle className="h-4 w-4" />
+              Vorgeschlagene Reihenfolge
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <ol className="space-y-1 text-sm">
+              {orderProposal.order.map((id, index) => {
+                const wp = waypoints.find((w) => w.id === id);
+                return (
+                  <li key={id} className="flex gap-2">
+                    <span className="text-muted-foreground">{index + 1}.</span>
+                    <span className="truncate">{wp?.address || wp?.label || id}</span>
+                  </li>
+                );
+              })}
+              {orderProposal.roundTrip && (
+                <li className="flex gap-2 text-muted-foreground">
+                  <span>↺</span>
+                  <span>zurück zum Start</span>
+                </li>
+              )}
+            </ol>
+
+            <div className="flex flex-wrap gap-2">
+              {Number.isFinite(orderProposal.savedDistanceMeters) && (
+                <Badge variant="secondary">
+                  −{formatKm((orderProposal.savedDistanceMeters as number) / 1000)}
+                </Badge>
+              )}
+              {Number.isFinite(orderProposal.savedDurationSeconds) && (
+                <Badge variant="secondary">
+                  −{formatMinutes(orderProposal.savedDurationSeconds as number)}
+                </Badge>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button size="sm" className="flex-1" onClick={acceptOrderProposal}>
+                <Check className="h-4 w-4 mr-2" />
+                Übernehmen
+              </Button>
+              <Button size="sm" variant="outline" className="flex-1" onClick={rejectOrderProposal}>
+                <X className="h-4 w-4 mr-2" />
+                Verwerfen
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {setIsochrones && (
+        <IsochroneCard
+          defaultAddress={waypoints[0]?.address ?? ""}
+          mode={mode}
+          countries={countries}
+          bias={bias}
+          hasResult={!!isochrones?.length}
+          onResult={setIsochrones}
+        />
+      )}
+
+      <MatrixCard waypoints={waypoints} mode={mode} countries={countries} bias={bias} />
 
       {/* Dashboard Link */}
       <Link to="/dashboard">
@@ -383,16 +818,48 @@ export function RouteSidebar({
                 <span className="text-sm text-muted-foreground">Entfernung:</span>
                 <Badge variant="secondary">
                   {routeData.distance && routeData.distance !== "0,0 km"
-                    ? routeData.distance
-                    : typeof (routeData as any).distanceKm === "number"
-                    ? `${(routeData as any).distanceKm.toFixed(1).replace(".", ",")} km`
+                    ? approx(routeData.distance, routeData.degraded ? routeData.confidence : undefined)
+                    : typeof routeData.distanceKm === "number"
+                    ? `${routeData.distanceKm.toFixed(1).replace(".", ",")} km`
                     : "–"}
                 </Badge>
               </div>
               <div className="flex items-center justify-between">
                 <span className="text-sm text-muted-foreground">Fahrzeit:</span>
-                <Badge variant="secondary">{routeData.duration}</Badge>
+                <Badge variant="secondary">{approx(routeData.duration, routeData.confidence)}</Badge>
               </div>
+              {returnEta?.arrival && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Rückkehr:</span>
+                  <Badge variant="secondary">{formatClock(returnEta.arrival)}</Badge>
+                </div>
+              )}
+              {routeData.loop && (
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-sm text-muted-foreground">Rundtour:</span>
+                  <Badge variant="outline" title="Mit diesem Seed lässt sich die Runde wiederholen">
+                    Seed {routeData.loop.seed}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={shuffleLoop}
+                    disabled={isCalculating || rateLimitNotice !== null}
+                    title="Andere Runde mit gleicher Länge"
+                  >
+                    <Shuffle className="h-4 w-4 mr-1" />
+                    Neu mischen
+                  </Button>
+                </div>
+              )}
+              {routeData.alternatives && routeData.alternatives.length > 1 && (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-muted-foreground">Variante:</span>
+                  <Badge variant="outline">
+                    {(routeData.selectedAlternative ?? 0) + 1} von {routeData.alternatives.length}
+                  </Badge>
+                </div>
+              )}
             </>
           ) : (
             <div className="text-sm text-muted-foreground text-center py-4">
@@ -412,16 +879,47 @@ export function RouteSidebar({
             </div>
           )}
 
+          {routeWarnings.map((warning) => (
+            <div key={warning} className="mt-2 flex items-center gap-2 text-amber-600 text-sm">
+              <AlertTriangle className="h-4 w-4 shrink-0" />
+              {warning}
+            </div>
+          ))}
+
           <Separator className="my-3" />
 
           {routeData ? (
             <div className="space-y-2">
               <h4 className="text-sm font-medium">Navigation</h4>
-              <div className="space-y-1 text-sm text-muted-foreground">
-                {routeData.instructions.map((instruction, index) => (
-                  <div key={index}>{instruction}</div>
-                ))}
-              </div>
+              {routeData.legs?.length ? (
+                <div className="space-y-2">
+                  {routeData.legs.map((leg, index) => (
+                    <div key={`${leg.from.id}-${leg.to.id}-${index}`} className="rounded-md border p-2 space-y-1">
+                      <div className="text-sm font-medium">
+                        {leg.from.label} → {leg.to.label}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {leg.distance}, {leg.duration}
+                      </div>
+                      {leg.steps?.length ? (
+                        <RouteSteps steps={leg.steps} onSelectStep={onFocusPoint} />
+                      ) : leg.instructions.length > 0 ? (
+                        <div className="space-y-1 pt-1 text-sm text-muted-foreground">
+                          {leg.instructions.map((instruction, i) => (
+                            <div key={i}>{instruction}</div>
+                          ))}
+                        </div>
+                      ) : null}
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <div className="space-y-1 text-sm text-muted-foreground">
+                  {routeData.instructions.map((instruction, index) => (
+                    <div key={index}>{instruction}</div>
+                  ))}
+                </div>
+              )}
             </div>
           ) : null}
         </CardContent>
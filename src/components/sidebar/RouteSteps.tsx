@@ -0,0 +1,98 @@
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  MapPin,
+  Navigation,
+  RotateCcw,
+  RotateCw,
+  Undo2,
+  type LucideIcon,
+} from "lucide-react";
+import type { Maneuver, RouteStep } from "@/types/route";
+
+interface RouteStepsProps {
+  steps: RouteStep[];
+  onSelectStep?: (point: [number, number]) => void; // [lat,lng]
+}
+
+const MANEUVER_ICONS: Record<Maneuver, LucideIcon> = {
+  depart: Navigation,
+  arrive: Flag,
+  waypoint: MapPin,
+  straight: ArrowUp,
+  "slight-left": ArrowUpLeft,
+  left: CornerUpLeft,
+  "sharp-left": CornerUpLeft,
+  "slight-right": ArrowUpRight,
+  right: CornerUpRight,
+  "sharp-right": CornerUpRight,
+  "keep-left": ArrowUpLeft,
+  "keep-right": ArrowUpRight,
+  uturn: Undo2,
+  roundabout: RotateCcw,
+  "exit-roundabout": RotateCw,
+};
+
+const MANEUVER_TEXT: Record<Maneuver, string> = {
+  depart: "Losfahren",
+  arrive: "Ziel erreicht",
+  waypoint: "Zwischenziel erreicht",
+  straight: "Geradeaus weiter",
+  "slight-left": "Leicht links abbiegen",
+  left: "Links abbiegen",
+  "sharp-left": "Scharf links abbiegen",
+  "slight-right": "Leicht rechts abbiegen",
+  right: "Rechts abbiegen",
+  "sharp-right": "Scharf rechts abbiegen",
+  "keep-left": "Links halten",
+  "keep-right": "Rechts halten",
+  uturn: "Wenden",
+  roundabout: "In den Kreisverkehr einfahren",
+  "exit-roundabout": "Kreisverkehr verlassen",
+};
+
+// Text aus den strukturierten Daten statt der Provider-Instruktion
+function describeStep(step: RouteStep): string {
+  let text = MANEUVER_TEXT[step.maneuver] ?? step.instruction;
+  if (step.maneuver === "roundabout" && step.exit) {
+    text = `Im Kreisverkehr die ${step.exit}. Ausfahrt nehmen`;
+  }
+  if (step.maneuver === "arrive" || step.maneuver === "waypoint") return text;
+  return step.name ? `${text} auf ${step.name}` : text;
+}
+
+function formatStepDistance(meters: number): string {
+  if (meters < 1000) return `${Math.round(meters / 10) * 10} m`;
+  return `${(meters / 1000).toFixed(1).replace(".", ",")} km`;
+}
+
+export function RouteSteps({ steps, onSelectStep }: RouteStepsProps) {
+  return (
+    <div className="space-y-1 pt-1">
+      {steps.map((step, index) => {
+        const Icon = MANEUVER_ICONS[step.maneuver] ?? ArrowUp;
+        const location = step.location;
+        return (
+          <button
+            key={index}
+            type="button"
+            disabled={!location || !onSelectStep}
+            onClick={() => location && onSelectStep?.([location[1], location[0]])}
+            className="flex w-full items-start gap-2 rounded px-1 py-0.5 text-left text-sm text-muted-foreground hover:bg-muted disabled:hover:bg-transparent"
+            title={step.instruction}
+          >
+            <Icon className="mt-0.5 h-4 w-4 shrink-0" />
+            <span className="flex-1">{describeStep(step)}</span>
+            {step.distanceMeters > 0 && (
+              <span className="shrink-0 text-xs">{formatStepDistance(step.distanceMeters)}</span>
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Truck, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { toast } from "sonner";
+import { useVehicleProfiles, type VehicleProfile } from "@/hooks/use-vehicle-profiles";
+
+export type VehicleDimensions = Omit<VehicleProfile, "id" | "name">;
+
+interface VehicleProfileCardProps {
+  value: VehicleDimensions;
+  onChange: (value: VehicleDimensions) => void;
+}
+
+const NUMBER_FIELDS: { key: keyof Omit<VehicleDimensions, "hazmatClass">; label: string; unit: string }[] = [
+  { key: "lengthM", label: "Länge", unit: "m" },
+  { key: "widthM", label: "Breite", unit: "m" },
+  { key: "heightM", label: "Höhe", unit: "m" },
+  { key: "axleLoadT", label: "Achslast", unit: "t" },
+  { key: "weightT", label: "Gesamtgewicht", unit: "t" },
+];
+
+const HAZMAT_CLASSES = ["1", "2", "3", "4", "5", "6", "7", "8", "9"];
+const NO_HAZMAT = "none";
+
+export function VehicleProfileCard({ value, onChange }: VehicleProfileCardProps) {
+  const { profiles, saveProfile, deleteProfile } = useVehicleProfiles();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find((p) => p.id === id);
+    if (!profile) return;
+    const { id: _id, name: profileName, ...dimensions } = profile;
+    setSelectedId(id);
+    setName(profileName);
+    onChange(dimensions);
+  };
+
+  const updateNumber = (key: keyof VehicleDimensions, raw: string) => {
+    const num = parseFloat(raw.replace(",", "."));
+    onChange({ ...value, [key]: Number.isFinite(num) ? num : undefined });
+  };
+
+  const handleSave = () => {
+    if (!name.trim()) {
+      toast.error("Bitte einen Namen für das Fahrzeugprofil eingeben.");
+      return;
+    }
+    // Gleicher Name wie das gewählte Profil -> überschreiben, sonst neu anlegen
+    const selected = profiles.find((p) => p.id === selectedId);
+    const id = selected && selected.name === name.trim() ? selected.id : `vehicle-${Date.now()}`;
+    saveProfile({ ...value, id, name: name.trim() });
+    setSelectedId(id);
+    toast.success("Fahrzeugprofil gespeichert");
+  };
+
+  const handleDelete = () => {
+    if (!selectedId) return;
+    deleteProfile(selectedId);
+    setSelectedId(null);
+    setName("");
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Truck className="h-4 w-4" />
+          Fahrzeugprofil
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {profiles.length > 0 && (
+          <Select value={selectedId ?? undefined} onValueChange={selectProfile}>
+            <SelectTrigger className="text-sm">
+              <SelectValue placeholder="Gespeichertes Profil wählen" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="grid grid-cols-2 gap-3">
+          {NUMBER_FIELDS.map(({ key, label, unit }) => (
+            <div key={key} className="space-y-1">
+              <Label htmlFor={`vehicle-${key}`} className="text-xs">
+                {label} ({unit})
+              </Label>
+              <Input
+                id={`vehicle-${key}`}
+                type="number"
+                min={0}
+                step="0.1"
+                value={value[key] ?? ""}
+                onChange={(e) => updateNumber(key, e.target.value)}
+                className="text-sm"
+              />
+            </div>
+          ))}
+
+          <div className="space-y-1">
+            <Label className="text-xs">Gefahrgutklasse</Label>
+            <Select
+              value={value.hazmatClass ?? NO_HAZMAT}
+              onValueChange={(v) => onChange({ ...value, hazmatClass: v === NO_HAZMAT ? undefined : v })}
+            >
+              <SelectTrigger className="text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_HAZMAT}>Keine</SelectItem>
+                {HAZMAT_CLASSES.map((c) => (
+                  <SelectItem key={c} value={c}>
+                    Klasse {c}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Profilname"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="text-sm"
+          />
+          <Button variant="outline" size="sm" onClick={handleSave} title="Profil speichern">
+            <Save className="h-4 w-4" />
+          </Button>
+          {selectedId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleDelete}
+              className="text-destructive hover:text-destructive"
+              title="Profil löschen"
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
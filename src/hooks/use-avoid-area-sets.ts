@@ -0,0 +1,77 @@
+import { useCallback, useEffect, useState } from "react";
+import { avoidAreaSchema, type AvoidArea } from "@contract";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { useSession } from "@/hooks/use-session";
+
+export interface AvoidAreaSet {
+  id: string;
+  name: string;
+  areas: AvoidArea[];
+}
+
+// Gespeicherte Polygone gegen den Vertrag prüfen; kaputte Einträge fallen weg
+function parseAreas(raw: unknown): AvoidArea[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((area) => {
+    const parsed = avoidAreaSchema.safeParse(area);
+    return parsed.success ? [parsed.data] : [];
+  });
+}
+
+// Benannte Sperrflächen-Sets des angemeldeten Nutzers (Tabelle avoid_area_sets)
+export function useAvoidAreaSets() {
+  const { session } = useSession();
+  const userId = session?.user.id;
+  const [sets, setSets] = useState<AvoidAreaSet[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const reload = useCallback(async () => {
+    if (!userId) {
+      setSets([]);
+      return;
+    }
+    setIsLoading(true);
+    const { data, error } = await supabase
+      .from("avoid_area_sets")
+      .select("id, name, areas")
+      .order("name");
+    setIsLoading(false);
+    if (error) {
+      console.error("avoid_area_sets laden fehlgeschlagen:", error.message);
+      return;
+    }
+    setSets(data.map((row) => ({ id: row.id, name: row.name, areas: parseAreas(row.areas) })));
+  }, [userId]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  /** Gleicher Name überschreibt das vorhandene Set */
+  const saveSet = useCallback(
+    async (name: string, areas: AvoidArea[]) => {
+      const { error } = await supabase
+        .from("avoid_area_sets")
+        .upsert(
+          // Polygone sind reines JSON; zods Tupel-Typ kennt das Json-Schema nicht
+          { name, areas: areas as Json, updated_at: new Date().toISOString() },
+          { onConflict: "user_id,name" },
+        );
+      if (error) throw new Error(error.message);
+      await reload();
+    },
+    [reload],
+  );
+
+  const deleteSet = useCallback(
+    async (id: string) => {
+      const { error } = await supabase.from("avoid_area_sets").delete().eq("id", id);
+      if (error) throw new Error(error.message);
+      setSets((prev) => prev.filter((s) => s.id !== id));
+    },
+    [],
+  );
+
+  return { sets, isLoading, canSave: !!userId, saveSet, deleteSet };
+}
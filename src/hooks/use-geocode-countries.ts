@@ -0,0 +1,33 @@
+import { useEffect, useState } from "react";
+
+const STORAGE_KEY = "route-wizard:geocode-countries";
+
+function loadCountries(): string[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed.filter((c) => typeof c === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+/** "de, AT ch" -> ["de", "at", "ch"]; ungültige Codes fallen weg */
+export function parseCountryList(text: string): string[] {
+  const codes = text
+    .split(/[,;\s]+/)
+    .map((c) => c.trim().toLowerCase())
+    .filter((c) => /^[a-z]{2}$/.test(c));
+  return [...new Set(codes)];
+}
+
+// Länder für die Adresssuche (lokal im Browser); leer = Server-Vorgabe bzw. weltweit
+export function useGeocodeCountries() {
+  const [countries, setCountries] = useState<string[]>(loadCountries);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(countries));
+  }, [countries]);
+
+  return { countries, setCountries };
+}
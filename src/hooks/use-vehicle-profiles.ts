@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+
+export interface VehicleProfile {
+  id: string;
+  name: string;
+  lengthM?: number;
+  widthM?: number;
+  heightM?: number;
+  axleLoadT?: number;
+  weightT?: number;
+  /** UN-Gefahrgutklasse (1–9), leer = kein Gefahrgut */
+  hazmatClass?: string;
+}
+
+const STORAGE_KEY = "route-wizard:vehicle-profiles";
+
+function loadProfiles(): VehicleProfile[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+// Gespeicherte Fahrzeugprofile (lokal im Browser)
+export function useVehicleProfiles() {
+  const [profiles, setProfiles] = useState<VehicleProfile[]>(loadProfiles);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(profiles));
+  }, [profiles]);
+
+  const saveProfile = useCallback((profile: VehicleProfile) => {
+    setProfiles((prev) => {
+      const exists = prev.some((p) => p.id === profile.id);
+      return exists ? prev.map((p) => (p.id === profile.id ? profile : p)) : [...prev, profile];
+    });
+  }, []);
+
+  const deleteProfile = useCallback((id: string) => {
+    setProfiles((prev) => prev.filter((p) => p.id !== id));
+  }, []);
+
+  return { profiles, saveProfile, deleteProfile };
+}
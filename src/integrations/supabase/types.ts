@@ -14,6 +14,27 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          key_hash: string
+          label: string
+          revoked_at: string | null
+        }
+        Insert: {
+          created_at?: string
+          key_hash: string
+          label: string
+          revoked_at?: string | null
+        }
+        Update: {
+          created_at?: string
+          key_hash?: string
+          label?: string
+          revoked_at?: string | null
+        }
+        Relationships: []
+      }
       app_users: {
         Row: {
           created_at: string
@@ -41,6 +62,33 @@ export type Database = {
         }
         Relationships: []
       }
+      avoid_area_sets: {
+        Row: {
+          areas: Json
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          areas?: Json
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          areas?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       calendar_events: {
         Row: {
           created_at: string | null
@@ -154,6 +202,51 @@ export type Database = {
         }
         Relationships: []
       }
+      geocode_cache: {
+        Row: {
+          address: string
+          candidates: Json | null
+          created_at: string
+          expires_at: string | null
+          hit_count: number
+          is_override: boolean
+          lat: number | null
+          lng: number | null
+          miss_count: number
+          provider: string | null
+          query_key: string
+          updated_at: string
+        }
+        Insert: {
+          address: string
+          candidates?: Json | null
+          created_at?: string
+          expires_at?: string | null
+          hit_count?: number
+          is_override?: boolean
+          lat?: number | null
+          lng?: number | null
+          miss_count?: number
+          provider?: string | null
+          query_key: string
+          updated_at?: string
+        }
+        Update: {
+          address?: string
+          candidates?: Json | null
+          created_at?: string
+          expires_at?: string | null
+          hit_count?: number
+          is_override?: boolean
+          lat?: number | null
+          lng?: number | null
+          miss_count?: number
+          provider?: string | null
+          query_key?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       meal_plans: {
         Row: {
           created_at: string | null
@@ -217,6 +310,33 @@ export type Database = {
         }
         Relationships: []
       }
+      provider_health: {
+        Row: {
+          failures: number
+          last_error: string | null
+          open_until: string | null
+          provider: string
+          state: string
+          updated_at: string
+        }
+        Insert: {
+          failures?: number
+          last_error?: string | null
+          open_until?: string | null
+          provider: string
+          state: string
+          updated_at?: string
+        }
+        Update: {
+          failures?: number
+          last_error?: string | null
+          open_until?: string | null
+          provider?: string
+          state?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       rate_limits: {
         Row: {
           request_count: number | null
@@ -235,11 +355,45 @@ export type Database = {
         }
         Relationships: []
       }
+      route_cache: {
+        Row: {
+          created_at: string
+          expires_at: string
+          hit_count: number
+          provider: string | null
+          request_hash: string
+          response: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          hit_count?: number
+          provider?: string | null
+          request_hash: string
+          response: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          hit_count?: number
+          provider?: string | null
+          request_hash?: string
+          response?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      geocode_cache_hit: {
+        Args: { _query_key: string }
+        Returns: undefined
+      }
       has_min_role: {
         Args: { _min: string; _user_id: string }
         Returns: boolean
@@ -256,6 +410,17 @@ export type Database = {
         Args: { destination_id: string }
         Returns: boolean
       }
+      rate_limit_hit: {
+        Args: { _source_key: string; _window_seconds: number }
+        Returns: {
+          request_count: number
+          window_start: string
+        }[]
+      }
+      route_cache_hit: {
+        Args: { _request_hash: string }
+        Returns: undefined
+      }
       user_role: {
         Args: { _user_id: string }
         Returns: string
@@ -0,0 +1,18 @@
+import { supabase } from "@/integrations/supabase/client";
+
+/** Koordinaten als lesbarer Platzhalter, falls keine Adresse gefunden wird */
+export function formatCoordinates(lat: number, lng: number): string {
+  return `${lat.toFixed(5)}, ${lng.toFixed(5)}`;
+}
+
+/** Adresse zu einem Punkt über die reverse-geocode Function; null bei Fehler. */
+export async function reverseGeocode(lat: number, lng: number): Promise<string | null> {
+  const { data, error } = await supabase.functions.invoke<{ address: string | null }>("reverse-geocode", {
+    body: { lat, lng },
+  });
+  if (error) {
+    console.error("Fehler bei Adressermittlung:", error);
+    return null;
+  }
+  return data?.address ?? null;
+}
@@ -0,0 +1,104 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import {
+  API_VERSION,
+  errorResponseSchema,
+  routeRequestSchema,
+  routeResponseSchema,
+  type ErrorCode,
+  type ErrorResponse,
+  type RouteOkResponse,
+  type RouteRequest,
+  type RouteResponse,
+} from "@contract";
+import { supabase } from "@/integrations/supabase/client";
+
+/** Texte für die UI; die Meldung des Servers ergänzt nur Details */
+export const ERROR_MESSAGES: Record<ErrorCode, string> = {
+  INVALID_REQUEST: "Ungültige Eingabe",
+  UNAUTHENTICATED: "Nicht angemeldet",
+  FORBIDDEN: "Keine Berechtigung",
+  GEOCODE_FAILED: "Adresse nicht gefunden",
+  IDENTICAL_POINTS: "Start und Ziel sind identisch",
+  PROVIDER_HTTP_ERROR: "Routing-Dienst nicht erreichbar",
+  PROVIDER_NO_ROUTE: "Keine Route zwischen den Punkten gefunden",
+  PROVIDER_UNSUPPORTED: "Verkehrsmittel wird vom Routing-Dienst nicht unterstützt",
+  PROVIDER_UNAVAILABLE: "Routing-Dienst vorübergehend nicht verfügbar",
+  QUOTA_EXCEEDED: "Kontingent des Routing-Dienstes erschöpft",
+  RATE_LIMITED: "Anfragelimit erreicht",
+  INTERNAL_ERROR: "Interner Serverfehler",
+};
+
+/** Fehler einer Edge Function bzw. Verletzung des API-Vertrags */
+export class RouteApiError extends Error {
+  status?: number;
+  code?: ErrorCode;
+  issues?: ErrorResponse["issues"];
+  /** Betroffene Routenpunkte, z.B. bei GEOCODE_FAILED */
+  waypointIds: string[];
+  /** Bei RATE_LIMITED: frühestens dann erneut versuchen */
+  retryAfterSeconds?: number;
+
+  constructor(
+    message: string,
+    details: Partial<Pick<RouteApiError, "status" | "code" | "issues" | "waypointIds" | "retryAfterSeconds">> = {},
+  ) {
+    super(message);
+    this.name = "RouteApiError";
+    this.status = details.status;
+    this.code = details.code;
+    this.issues = details.issues;
+    this.waypointIds = details.waypointIds ?? [];
+    this.retryAfterSeconds = details.retryAfterSeconds;
+  }
+}
+
+function describeIssues(issues: ErrorResponse["issues"]): string {
+  return (issues ?? []).map((i) => (i.path ? `${i.path}: ${i.message}` : i.message)).join("; ");
+}
+
+/** 4xx/5xx einer Edge Function: Fehlerantwort mit Code auslesen, falls vorhanden */
+export async function toApiError(error: Error): Promise<RouteApiError> {
+  if (error instanceof FunctionsHttpError) {
+    const response = error.context as Response;
+    const payload = await response.json().catch(() => null);
+    const parsed = errorResponseSchema.safeParse(payload);
+    if (parsed.success) {
+      const { code, issues, waypointIds } = parsed.data;
+      const details = describeIssues(issues) || parsed.data.error;
+      // Header ist maßgeblich (Proxies), der Body nur Rückfall
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      return new RouteApiError(details ? `${ERROR_MESSAGES[code]} – ${details}` : ERROR_MESSAGES[code], {
+        status: response.status,
+        code,
+        issues,
+        waypointIds,
+        retryAfterSeconds: retryAfter > 0 ? retryAfter : parsed.data.retryAfterSeconds,
+      });
+    }
+  }
+  return new RouteApiError(error.message || "Unbekannter Serverfehler");
+}
+
+/** Route vom Routing-Dienst, keine Ersatzroute */
+export function isRouteOk(response: RouteResponse): response is RouteOkResponse {
+  return response.fallback === false;
+}
+
+/** Route berechnen; Request und Response werden gegen den Vertrag geprüft. */
+export async function requestRoute(request: Omit<RouteRequest, "apiVersion">): Promise<RouteResponse> {
+  const body = routeRequestSchema.safeParse({ ...request, apiVersion: API_VERSION });
+  if (!body.success) {
+    const issues = body.error.issues.map((i) => ({ path: i.path.join("."), message: i.message }));
+    throw new RouteApiError(`Ungültige Eingabe – ${describeIssues(issues)}`, { code: "INVALID_REQUEST", issues });
+  }
+
+  const { data, error } = await supabase.functions.invoke("calculate-route", { body: body.data });
+  if (error) throw await toApiError(error);
+
+  const parsed = routeResponseSchema.safeParse(data);
+  if (!parsed.success) {
+    console.error("Antwort passt nicht zum API-Vertrag:", parsed.error.issues, data);
+    throw new RouteApiError(`Unerwartete Antwort vom Server (erwartet API-Version ${API_VERSION})`);
+  }
+  return parsed.data;
+}
@@ -7,11 +7,39 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Link } from "react-router-dom";
 
+type TravelMode = 'car' | 'truck' | 'bike' | 'ebike' | 'roadbike' | 'walking';
+
+// Filter fasst die Rad-Profile zusammen
+type ModeFilter = 'all' | 'car' | 'truck' | 'cycling' | 'walking';
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  car: 'Auto',
+  truck: 'LKW',
+  bike: 'Fahrrad',
+  ebike: 'E-Bike',
+  roadbike: 'Rennrad',
+  walking: 'Zu Fuß',
+};
+
+const FILTER_OPTIONS: { value: ModeFilter; label: string }[] = [
+  { value: 'all', label: 'Alle' },
+  { value: 'car', label: 'Auto' },
+  { value: 'truck', label: 'LKW' },
+  { value: 'cycling', label: 'Fahrrad' },
+  { value: 'walking', label: 'Zu Fuß' },
+];
+
+function matchesModeFilter(mode: TravelMode, filter: ModeFilter) {
+  if (filter === 'all') return true;
+  if (filter === 'cycling') return mode === 'bike' || mode === 'ebike' || mode === 'roadbike';
+  return mode === filter;
+}
+
 interface SavedRoute {
   id: string;
   title: string;
   note?: string;
-  mode: 'car' | 'walking';
+  mode: TravelMode;
   distance: number;
   duration: number;
   waypoints: number;
@@ -21,7 +49,7 @@ interface SavedRoute {
 
 export default function Dashboard() {
   const [searchTerm, setSearchTerm] = useState("");
-  const [filterMode, setFilterMode] = useState<'all' | 'car' | 'walking'>('all');
+  const [filterMode, setFilterMode] = useState<ModeFilter>('all');
   
   // Mock data for saved routes
   const [savedRoutes] = useState<SavedRoute[]>([
@@ -53,13 +81,22 @@ export default function Dashboard() {
       duration: 120,
       waypoints: 5,
       createdAt: '2024-01-08T09:00:00Z'
+    },
+    {
+      id: '4',
+      title: 'Isar-Radweg München-Freising',
+      mode: 'ebike',
+      distance: 42,
+      duration: 150,
+      waypoints: 2,
+      createdAt: '2024-01-05T16:45:00Z'
     }
   ]);
 
   const filteredRoutes = savedRoutes.filter(route => {
     const matchesSearch = route.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          (route.note && route.note.toLowerCase().includes(searchTerm.toLowerCase()));
-    const matchesFilter = filterMode === 'all' || route.mode === filterMode;
+    const matchesFilter = matchesModeFilter(route.mode, filterMode);
     return matchesSearch && matchesFilter;
   });
 
@@ -69,7 +106,7 @@ export default function Dashboard() {
     return hours > 0 ? `${hours}h ${mins}min` : `${mins}min`;
   };
 
-  const formatDistance = (distance: number, mode: 'car' | 'walking') => {
+  const formatDistance = (distance: number, mode: TravelMode) => {
     if (mode === 'walking' && distance < 1) {
       return `${Math.round(distance * 1000)}m`;
     }
@@ -130,27 +167,16 @@ export default function Dashboard() {
           </div>
           
           <div className="flex gap-2">
-            <Button
-              variant={filterMode === 'all' ? 'default' : 'outline'}
-              size="sm"
-              onClick={() => setFilterMode('all')}
-            >
-              Alle
-            </Button>
-            <Button
-              variant={filterMode === 'car' ? 'default' : 'outline'}
-              size="sm"
-              onClick={() => setFilterMode('car')}
-            >
-              Auto
-            </Button>
-            <Button
-              variant={filterMode === 'walking' ? 'default' : 'outline'}
-              size="sm"
-              onClick={() => setFilterMode('walking')}
-            >
-              Zu Fuß
-            </Button>
+            {FILTER_OPTIONS.map(({ value, label }) => (
+              <Button
+                key={value}
+                variant={filterMode === value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setFilterMode(value)}
+              >
+                {label}
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -229,8 +255,8 @@ export default function Dashboard() {
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
                         <h3 className="text-lg font-semibold">{route.title}</h3>
-                        <Badge variant={route.mode === 'car' ? 'default' : 'secondary'}>
-                          {route.mode === 'car' ? 'Auto' : 'Zu Fuß'}
+                        <Badge variant={route.mode === 'car' || route.mode === 'truck' ? 'default' : 'secondary'}>
+                          {MODE_LABELS[route.mode]}
                         </Badge>
                       </div>
                       
@@ -1,23 +1,12 @@
-import { useState } from "react";
+import { useCallback, useState } from "react";
 import { Header } from "@/components/layout/Header";
 import { RouteSidebar } from "@/components/sidebar/RouteSidebar";
 import { MapContainer } from "@/components/map/MapContainer";
-
-interface Waypoint {
-  id: string;
-  label: string;
-  address: string;
-  lat?: number;
-  lng?: number;
-}
-
-interface RouteData {
-  distance: string;
-  duration: string;
-  instructions: string[];
-  geometry?: any;
-  waypoints?: Waypoint[];
-}
+import type { IsochroneFeature } from "@/components/sidebar/IsochroneCard";
+import type { MapViewport } from "@/components/sidebar/AddressCombobox";
+import { formatCoordinates, reverseGeocode } from "@/lib/geocoding";
+import { toast } from "sonner";
+import type { AvoidArea, RouteData, Waypoint } from "@/types/route";
 
 const Index = () => {
   const [sidebarOpen, setSidebarOpen] = useState(true);
@@ -28,6 +17,11 @@ const Index = () => {
   ]);
   const [routeData, setRouteData] = useState<RouteData | null>(null);
   const [isCalculating, setIsCalculating] = useState(false);
+  const [focusPoint, setFocusPoint] = useState<[number, number] | null>(null);
+  const [isochrones, setIsochrones] = useState<IsochroneFeature[] | null>(null);
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [avoidAreas, setAvoidAreas] = useState<AvoidArea[]>([]);
+  const [isDrawingAvoidArea, setIsDrawingAvoidArea] = useState(false);
 
   const toggleSidebar = () => setSidebarOpen(!sidebarOpen);
   const toggleTheme = () => {
@@ -35,18 +29,64 @@ const Index = () => {
     document.documentElement.classList.toggle('dark', !isDark);
   };
 
+  // Alternative auf der Karte gewählt -> als aktuelle Route übernehmen
+  const handleSelectAlternative = useCallback((index: number) => {
+    setRouteData((prev) => {
+      const alternative = prev?.alternatives?.[index];
+      if (!prev || !alternative) return prev;
+      return { ...prev, ...alternative, selectedAlternative: index };
+    });
+  }, []);
+
+  // Punkt sofort mit Koordinaten setzen, Adresse nachreichen sobald bekannt
+  const placeWaypoint = useCallback(async (id: string, lat: number, lng: number) => {
+    setWaypoints((prev) =>
+      prev.map((w) => (w.id === id ? { ...w, lat, lng, address: formatCoordinates(lat, lng) } : w))
+    );
+    const address = await reverseGeocode(lat, lng);
+    if (!address) return;
+    // Nur übernehmen, wenn der Punkt inzwischen nicht erneut verschoben wurde
+    setWaypoints((prev) =>
+      prev.map((w) => (w.id === id && w.lat === lat && w.lng === lng ? { ...w, address } : w))
+    );
+  }, []);
+
+  // Klick auf die Karte: erstes leeres Feld füllen, sonst neues Zwischenziel vor dem Ziel
+  const handleMapClick = useCallback((lat: number, lng: number) => {
+    let targetId = waypoints.find((w) => !w.address.trim())?.id;
+    if (!targetId) {
+      const id = `waypoint-${Date.now()}`;
+      targetId = id;
+      setWaypoints((prev) => {
+        const next = [...prev];
+        next.splice(prev.length - 1, 0, { id, label: `Zwischenziel ${prev.length - 1}`, address: '' });
+        return next;
+      });
+    }
+    placeWaypoint(targetId, lat, lng);
+  }, [waypoints, placeWaypoint]);
+
+  const handleAvoidAreaDrawn = useCallback((area: AvoidArea) => {
+    setAvoidAreas((prev) => [...prev, area]);
+    setIsDrawingAvoidArea(false);
+  }, []);
+
   const handleMyLocation = () => {
-    if (navigator.geolocation) {
-      navigator.geolocation.getCurrentPosition(
-        (position) => {
-          console.log('Current position:', position.coords);
-          // TODO: Update map center and add marker
-        },
-        (error) => {
-          console.error('Geolocation error:', error);
-        }
-      );
+    if (!navigator.geolocation) {
+      toast.error('Standortbestimmung wird von diesem Browser nicht unterstützt.');
+      return;
     }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const { latitude, longitude } = position.coords;
+        setFocusPoint([latitude, longitude]);
+        placeWaypoint('start', latitude, longitude);
+      },
+      (error) => {
+        console.error('Geolocation error:', error);
+        toast.error('Standort konnte nicht ermittelt werden', { description: error.message });
+      }
+    );
   };
 
   return (
@@ -73,6 +113,14 @@ const Index = () => {
             setRouteData={setRouteData}
             isCalculating={isCalculating}
             setIsCalculating={setIsCalculating}
+            onFocusPoint={setFocusPoint}
+            isochrones={isochrones}
+            setIsochrones={setIsochrones}
+            viewport={viewport}
+            avoidAreas={avoidAreas}
+            setAvoidAreas={setAvoidAreas}
+            isDrawingAvoidArea={isDrawingAvoidArea}
+            setIsDrawingAvoidArea={setIsDrawingAvoidArea}
           />
         </div>
         
@@ -83,6 +131,15 @@ const Index = () => {
             waypoints={waypoints}
             routeData={routeData}
             isCalculating={isCalculating}
+            onSelectAlternative={handleSelectAlternative}
+            focusPoint={focusPoint}
+            isochrones={isochrones}
+            onViewportChange={setViewport}
+            onMapClick={handleMapClick}
+            onWaypointDrag={placeWaypoint}
+            avoidAreas={avoidAreas}
+            drawingAvoidArea={isDrawingAvoidArea}
+            onAvoidAreaDrawn={handleAvoidAreaDrawn}
           />
           
           {/* Mobile overlay when sidebar is open */}
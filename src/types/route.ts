@@ -0,0 +1,35 @@
+import type { LineString, LoopInfo, RouteSummary, Waypoint } from "@contract";
+
+export type {
+  AvoidArea,
+  AvoidFeature,
+  Confidence,
+  GeocodeAmbiguity,
+  GeocodeCandidate,
+  LineString,
+  LoopInfo,
+  Maneuver,
+  RouteLeg,
+  RouteOptimization,
+  RouteStep,
+  RouteSummary,
+  StopEta,
+  TravelMode,
+  Waypoint,
+} from "@contract";
+
+/** Angezeigte Route: gewählte Variante plus alle Varianten (nach Ersatzroute nur Basisfelder) */
+export interface RouteData extends Partial<RouteSummary> {
+  distance: string;
+  duration: string;
+  instructions: string[];
+  geometry?: LineString;
+  waypoints?: Waypoint[];
+  /** Alle Varianten inkl. Hauptroute (Index 0) */
+  alternatives?: RouteSummary[];
+  selectedAlternative?: number;
+  /** Ersatzroute ohne Routing-Dienst: Offline-Straßennetz oder Luftlinie */
+  degraded?: "road-graph" | "straight-line";
+  /** Nur bei erzeugten Rundtouren */
+  loop?: LoopInfo;
+}
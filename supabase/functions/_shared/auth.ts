@@ -0,0 +1,64 @@
+import { errorResponse } from "./errors.ts";
+import { getAdminClient } from "./supabase.ts";
+
+export interface AuthUser {
+  id: string;
+  /** app_users.role über user_role(); null = kein Eintrag */
+  role: string | null;
+}
+
+/**
+ * Mindestrolle aus der Umgebung, z.B. ROUTE_OPTIMIZE_MIN_ROLE=admin.
+ * Die Rangfolge der Rollen kennt nur has_min_role() in der Datenbank.
+ */
+export function minRoleFromEnv(envName: string, fallback: string): string {
+  return Deno.env.get(envName)?.trim() || fallback;
+}
+
+/**
+ * Supabase-JWT aus dem Authorization-Header prüfen. Der anon-Key allein
+ * reicht nicht – liefert den Nutzer oder eine 401-Antwort.
+ */
+export async function requireUser(req: Request): Promise<AuthUser | Response> {
+  const db = getAdminClient();
+  if (!db) {
+    // Ohne Service-Role-Key lässt sich kein Token prüfen: lieber sperren
+    return errorResponse(
+      "INTERNAL_ERROR",
+      "Authentifizierung ist serverseitig nicht konfiguriert",
+    );
+  }
+
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  const { data, error } = token
+    ? await db.auth.getUser(token)
+    : { data: { user: null }, error: null };
+  if (error || !data.user) {
+    return errorResponse("UNAUTHENTICATED", "Bitte anmelden");
+  }
+
+  const { data: role, error: roleError } = await db.rpc("user_role", {
+    _user_id: data.user.id,
+  });
+  if (roleError) console.error("user_role error:", roleError.message);
+  return { id: data.user.id, role: typeof role === "string" ? role : null };
+}
+
+/** 403, wenn der Nutzer die Mindestrolle für eine Funktion nicht hat */
+export async function requireRole(
+  user: AuthUser,
+  minRole: string,
+  feature: string,
+): Promise<Response | null> {
+  const db = getAdminClient();
+  const { data, error } = db
+    ? await db.rpc("has_min_role", { _min: minRole, _user_id: user.id })
+    : { data: false, error: null };
+  if (error) console.error("has_min_role error:", error.message);
+  if (data === true) return null;
+  return errorResponse(
+    "FORBIDDEN",
+    `${feature} erfordert mindestens die Rolle „${minRole}“`,
+    { requiredRole: minRole },
+  );
+}
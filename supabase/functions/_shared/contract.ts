@@ -0,0 +1,512 @@
+// API-Vertrag zwischen calculate-route und dem Client.
+// Wird von der Edge Function (Deno, "zod" über import_map.json) und vom
+// Frontend (Vite-Alias "@contract") importiert – daher keine Deno-APIs hier.
+import { z } from "zod";
+
+/** Bei inkompatiblen Änderungen am Vertrag erhöhen. */
+export const API_VERSION = 1;
+
+// --- Fehlercodes ---
+export const errorCodeSchema = z.enum([
+  /** Request passt nicht zum Schema */
+  "INVALID_REQUEST",
+  /** Kein oder ungültiges Nutzer-JWT */
+  "UNAUTHENTICATED",
+  /** Rolle reicht für die gewünschte Funktion nicht, siehe requiredRole */
+  "FORBIDDEN",
+  /** Adresse(n) nicht gefunden, siehe waypointIds */
+  "GEOCODE_FAILED",
+  /** Weniger als zwei unterschiedliche Punkte */
+  "IDENTICAL_POINTS",
+  /** Routing-Dienst hat mit einem HTTP-Fehler geantwortet */
+  "PROVIDER_HTTP_ERROR",
+  /** Routing-Dienst kennt keine Route zwischen den Punkten */
+  "PROVIDER_NO_ROUTE",
+  /** Provider kann das Profil bzw. die Funktion nicht */
+  "PROVIDER_UNSUPPORTED",
+  /** Routing-Dienst nicht erreichbar (Timeout) oder per Circuit Breaker ausgesetzt */
+  "PROVIDER_UNAVAILABLE",
+  /** Kontingent beim Routing-Dienst erschöpft */
+  "QUOTA_EXCEEDED",
+  /** Zu viele Anfragen von diesem Nutzer/Schlüssel/IP, siehe retryAfterSeconds */
+  "RATE_LIMITED",
+  "INTERNAL_ERROR",
+]);
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  GEOCODE_FAILED: 422,
+  IDENTICAL_POINTS: 422,
+  PROVIDER_HTTP_ERROR: 502,
+  PROVIDER_NO_ROUTE: 422,
+  PROVIDER_UNSUPPORTED: 501,
+  PROVIDER_UNAVAILABLE: 503,
+  QUOTA_EXCEEDED: 429,
+  RATE_LIMITED: 429,
+  INTERNAL_ERROR: 500,
+};
+
+// --- Bausteine ---
+export const travelModeSchema = z.enum([
+  "car",
+  "truck",
+  "bike",
+  "ebike",
+  "roadbike",
+  "walking",
+]);
+export type TravelMode = z.infer<typeof travelModeSchema>;
+
+export const avoidFeatureSchema = z.enum([
+  "tollways",
+  "highways",
+  "ferries",
+  "fords",
+  "unpaved",
+  "steps",
+  "borders",
+]);
+export type AvoidFeature = z.infer<typeof avoidFeatureSchema>;
+
+/**
+ * Welche Vermeidungen für welches Profil sinnvoll sind. Der Client blendet
+ * davon nur ein, was auch der aktive Provider kann (AVOID_FEATURES_BY_PROVIDER).
+ */
+export const AVOID_FEATURES_BY_MODE: Record<TravelMode, AvoidFeature[]> = {
+  car: ["tollways", "highways", "ferries", "unpaved", "borders"],
+  truck: ["tollways", "highways", "ferries", "unpaved", "borders"],
+  bike: ["steps", "ferries", "fords", "unpaved"],
+  ebike: ["steps", "ferries", "fords", "unpaved"],
+  roadbike: ["steps", "ferries", "fords", "unpaved"],
+  walking: ["steps", "ferries", "fords"],
+};
+
+/** Per Request wählbare Provider */
+export const requestProviderSchema = z.enum(["ors", "osrm", "graphhopper"]);
+export type RequestProviderName = z.infer<typeof requestProviderSchema>;
+
+// "stub" (feste Testdaten) nur über ROUTING_PROVIDER, taucht aber in Antworten auf
+export const providerNameSchema = z.enum([
+  ...requestProviderSchema.options,
+  "stub",
+]);
+
+/**
+ * Vermeidungen, die der jeweilige Provider überhaupt umsetzen kann. OSRM
+ * schließt nur im Auto-Profil aus, alles andere meldet der Provider als Warnung.
+ */
+export const AVOID_FEATURES_BY_PROVIDER: Record<
+  z.infer<typeof providerNameSchema>,
+  AvoidFeature[]
+> = {
+  ors: ["tollways", "highways", "ferries", "fords", "steps", "borders"],
+  osrm: ["tollways", "highways", "ferries"],
+  graphhopper: ["tollways", "highways", "ferries", "fords", "unpaved", "steps"],
+  stub: [],
+};
+
+// Provider-neutrale Manöver, damit der Client Icons & eigene Texte rendern kann
+export const maneuverSchema = z.enum([
+  "depart",
+  "arrive",
+  "waypoint",
+  "straight",
+  "slight-left",
+  "left",
+  "sharp-left",
+  "slight-right",
+  "right",
+  "sharp-right",
+  "keep-left",
+  "keep-right",
+  "uturn",
+  "roundabout",
+  "exit-roundabout",
+]);
+export type Maneuver = z.infer<typeof maneuverSchema>;
+
+const latitude = z.number().min(-90).max(90);
+const longitude = z.number().min(-180).max(180);
+
+export const latLngSchema = z.object({ lat: latitude, lng: longitude });
+
+/** ISO-3166-1 alpha-2, Groß-/Kleinschreibung egal */
+const countryCodesSchema = z.array(z.string().regex(/^[a-zA-Z]{2}$/));
+
+/** Routengeometrie immer als GeoJSON, Koordinaten [lon,lat] */
+export const lineStringSchema = z.object({
+  type: z.literal("LineString"),
+  coordinates: z.array(z.tuple([z.number(), z.number()])),
+});
+export type LineString = z.infer<typeof lineStringSchema>;
+
+export const waypointSchema = z.object({
+  id: z.string().min(1),
+  label: z.string(),
+  address: z.string(),
+  lat: latitude.optional(),
+  lng: longitude.optional(),
+  /** Aufenthalt am Zwischenziel in Minuten (für ETAs) */
+  dwellMinutes: z.number().min(0).optional(),
+});
+export type Waypoint = z.infer<typeof waypointSchema>;
+
+// 0 bzw. leer = keine Einschränkung (wird serverseitig verworfen)
+const dimension = z.number().min(0).optional();
+
+export const vehicleSchema = z.object({
+  lengthM: dimension,
+  widthM: dimension,
+  heightM: dimension,
+  axleLoadT: dimension,
+  weightT: dimension,
+  /** UN-Gefahrgutklasse (1–9) */
+  hazmatClass: z.string().optional(),
+});
+
+/** Mehr Sperrflächen lehnen die Routing-Dienste ohnehin ab */
+export const MAX_AVOID_AREAS = 20;
+
+const positionSchema = z.tuple([longitude, latitude]);
+
+/** Sperrfläche (Baustelle, Innenstadt, No-go-Bereich) als GeoJSON-Polygon [lon,lat] */
+export const avoidAreaSchema = z.object({
+  type: z.literal("Polygon"),
+  coordinates: z
+    .array(z.array(positionSchema).min(4, "Eine Sperrfläche braucht mindestens 3 Eckpunkte"))
+    .min(1),
+}).refine(
+  (polygon) =>
+    polygon.coordinates.every((ring) => {
+      const [first, last] = [ring[0], ring[ring.length - 1]];
+      return first[0] === last[0] && first[1] === last[1];
+    }),
+  "Sperrflächen müssen geschlossen sein (erster = letzter Punkt)",
+);
+export type AvoidArea = z.infer<typeof avoidAreaSchema>;
+
+/** Rundtour ab dem Startpunkt: Ziellänge oder -dauer, optional mit Seed */
+export const loopRequestSchema = z.object({
+  lengthMeters: z.number().min(500).max(100_000).optional(),
+  /** Wird über das Geschwindigkeitsmodell in eine Länge umgerechnet */
+  durationMinutes: z.number().min(5).max(1440).optional(),
+  /** Gleicher Seed = gleiche Runde; fehlt er, würfelt der Server einen */
+  seed: z.number().int().min(0).max(2 ** 31 - 1).optional(),
+}).refine(
+  (loop) => loop.lengthMeters !== undefined || loop.durationMinutes !== undefined,
+  "Rundtour braucht eine Länge oder Dauer",
+);
+
+// --- Request ---
+export const routeRequestSchema = z.object({
+  apiVersion: z.literal(API_VERSION),
+  waypoints: z.array(waypointSchema).min(1, "Mindestens 1 Routenpunkt erforderlich"),
+  mode: travelModeSchema.default("car"),
+  avoidTolls: z.boolean().optional(),
+  avoidHighways: z.boolean().optional(),
+  fastestRoute: z.boolean().optional(),
+  /** Rad-Profile und zu Fuß: Treppen (Schiebestrecken) vermeiden */
+  avoidSteps: z.boolean().optional(),
+  avoidFerries: z.boolean().optional(),
+  /** Rad-Profile und zu Fuß: Furten vermeiden */
+  avoidFords: z.boolean().optional(),
+  /** Unbefestigte Wege (Schotter, Feldwege) vermeiden; nicht zu Fuß */
+  avoidUnpaved: z.boolean().optional(),
+  /** Nur Auto/LKW: Landesgrenzen nicht überqueren */
+  avoidBorders: z.boolean().optional(),
+  /** Flächen, die die Route nicht durchqueren soll */
+  avoidAreas: z.array(avoidAreaSchema).max(MAX_AVOID_AREAS).optional(),
+  /** Nur Rad-Profile: 0 = möglichst flach … 3 = Steigungen egal */
+  steepnessDifficulty: z.number().int().min(0).max(3).optional(),
+  /** ISO-Zeitpunkt der Abfahrt am Start */
+  departureTime: z.string().optional(),
+  /** ISO-Zeitpunkt der gewünschten Ankunft am Ziel (wenn keine Abfahrt gesetzt) */
+  arrivalTime: z.string().optional(),
+  /** Nur LKW: Abmessungen/Gewicht/Gefahrgut als Routing-Einschränkungen */
+  vehicle: vehicleSchema.optional(),
+  /** Zwischenziele in die günstigste Reihenfolge bringen (Start/Ziel bleiben fest). */
+  optimizeOrder: z.boolean().optional(),
+  /** Route endet wieder am Start; das Ziel wird dann wie ein Zwischenziel behandelt. */
+  roundTrip: z.boolean().optional(),
+  /** Alternativrouten mitliefern (nur zwischen Start und Ziel ohne Zwischenziele). */
+  alternatives: z.boolean().optional(),
+  /** Optional: Provider für diesen Request (sonst ROUTING_PROVIDER). */
+  provider: requestProviderSchema.optional(),
+  /** Länderfilter fürs Geocoding (ISO-Codes); sonst GEOCODE_COUNTRIES */
+  countries: countryCodesSchema.optional(),
+  /** Ortsbezug fürs Geocoding, z.B. Kartenmitte */
+  bias: latLngSchema.optional(),
+  /**
+   * Bei Provider-Fehlern Luftlinie liefern (Standard). false = stattdessen
+   * Fehlerantwort mit Code und HTTP-Status.
+   */
+  allowFallback: z.boolean().optional(),
+  /** Routen-Cache nicht lesen (das neue Ergebnis wird trotzdem gespeichert) */
+  bypassCache: z.boolean().optional(),
+  /** Rundtour erzeugen: nur der erste Routenpunkt zählt, weitere werden ignoriert */
+  loop: loopRequestSchema.optional(),
+}).refine(
+  (request) => request.loop !== undefined || request.waypoints.length >= 2,
+  { message: "Mindestens 2 Routenpunkte erforderlich", path: ["waypoints"] },
+);
+/** Was der Client schickt (Defaults noch nicht angewendet) */
+export type RouteRequest = z.input<typeof routeRequestSchema>;
+/** Validierter Request, wie ihn die Function sieht */
+export type ParsedRouteRequest = z.output<typeof routeRequestSchema>;
+
+/** Ort in der Matrix: Koordinaten oder Adresse (wird geocodet) */
+const matrixLocationSchema = z.object({
+  id: z.string().optional(),
+  address: z.string().optional(),
+  lat: latitude.optional(),
+  lng: longitude.optional(),
+});
+export type MatrixLocation = z.infer<typeof matrixLocationSchema>;
+
+/** Distanz-/Zeitmatrix (matrix); ohne destinations quadratisch origins × origins */
+export const matrixRequestSchema = z.object({
+  origins: z.array(matrixLocationSchema)
+    .min(1, "Mindestens ein Start (origins) erforderlich"),
+  destinations: z.array(matrixLocationSchema).optional(),
+  mode: travelModeSchema.default("car"),
+  provider: requestProviderSchema.optional(),
+  /** Länderfilter fürs Geocoding (ISO-Codes); sonst GEOCODE_COUNTRIES */
+  countries: countryCodesSchema.optional(),
+  /** Ortsbezug fürs Geocoding, z.B. Kartenmitte */
+  bias: latLngSchema.optional(),
+});
+export type MatrixRequestBody = z.input<typeof matrixRequestSchema>;
+
+export const MAX_ISOCHRONE_RANGES = 10;
+
+/** Erreichbarkeit (isochrones) um einen Mittelpunkt */
+export const isochroneRequestSchema = z.object({
+  lat: latitude.optional(),
+  lng: longitude.optional(),
+  address: z.string().optional(),
+  mode: travelModeSchema.default("car"),
+  rangeType: z.enum(["time", "distance"]).default("time"),
+  /** Budgets in Minuten (time) bzw. Kilometern (distance), z.B. [10, 20, 30] */
+  ranges: z.array(z.number().positive())
+    .min(1, "Mindestens ein Budget erforderlich")
+    .max(MAX_ISOCHRONE_RANGES),
+  provider: requestProviderSchema.optional(),
+  /** Länderfilter fürs Geocoding (ISO-Codes); sonst GEOCODE_COUNTRIES */
+  countries: countryCodesSchema.optional(),
+  /** Ortsbezug fürs Geocoding, z.B. Kartenmitte */
+  bias: latLngSchema.optional(),
+});
+export type IsochroneRequestBody = z.input<typeof isochroneRequestSchema>;
+
+/** Adressvorschläge (suggest-address); zu kurze Eingaben liefern [] */
+export const suggestRequestSchema = z.object({
+  query: z.string(),
+  /** Kartenmitte als Ortsbezug */
+  lat: latitude.optional(),
+  lng: longitude.optional(),
+  zoom: z.number().optional(),
+  limit: z.number().int().positive().optional(),
+  /** Länderfilter (ISO-Codes); sonst GEOCODE_COUNTRIES */
+  countries: countryCodesSchema.optional(),
+});
+export type SuggestRequest = z.infer<typeof suggestRequestSchema>;
+
+/** Adresse zu einem Punkt (reverse-geocode) */
+export const reverseGeocodeRequestSchema = latLngSchema;
+export type ReverseGeocodeRequest = z.infer<typeof reverseGeocodeRequestSchema>;
+
+// --- Response ---
+export const routeStepSchema = z.object({
+  maneuver: maneuverSchema,
+  instruction: z.string(),
+  name: z.string(),
+  distanceMeters: z.number(),
+  durationSeconds: z.number(),
+  /** Ausfahrt im Kreisverkehr */
+  exit: z.number().optional(),
+  wayPoints: z.tuple([z.number(), z.number()]).optional(),
+  /** Manöver-Ort [lon,lat] */
+  location: z.tuple([z.number(), z.number()]).optional(),
+});
+export type RouteStep = z.infer<typeof routeStepSchema>;
+
+const waypointRefSchema = z.object({ id: z.string(), label: z.string() });
+
+export const routeLegSchema = z.object({
+  from: waypointRefSchema,
+  to: waypointRefSchema,
+  distance: z.string(),
+  duration: z.string(),
+  distanceMeters: z.number(),
+  durationSeconds: z.number(),
+  instructions: z.array(z.string()),
+  steps: z.array(routeStepSchema),
+  geometry: lineStringSchema,
+});
+export type RouteLeg = z.infer<typeof routeLegSchema>;
+
+export const stopEtaSchema = z.object({
+  waypointId: z.string(),
+  arrival: z.string().nullable(), // ISO; null am Startpunkt
+  departure: z.string().nullable(), // ISO; null am Zielpunkt
+});
+export type StopEta = z.infer<typeof stopEtaSchema>;
+
+/**
+ * Belastbarkeit von Distanz/Dauer: high = vom Routing-Dienst, medium = Dauer
+ * oder Route geschätzt (Geschwindigkeitsmodell, Offline-Netz), low = Luftlinie
+ */
+export const confidenceSchema = z.enum(["high", "medium", "low"]);
+export type Confidence = z.infer<typeof confidenceSchema>;
+
+/** Eine berechnete Routenvariante */
+export const routeSummarySchema = z.object({
+  distance: z.string(),
+  duration: z.string(),
+  distanceMeters: z.number(),
+  distanceKm: z.number(),
+  durationSeconds: z.number(),
+  /** Fehlt bei älteren Cache-Einträgen; dann wie high behandeln */
+  confidence: confidenceSchema.optional(),
+  distanceSource: z.enum(["summary", "geometry"]),
+  instructions: z.array(z.string()),
+  geometry: lineStringSchema,
+  warnings: z.array(z.string()),
+  legs: z.array(routeLegSchema),
+  etas: z.array(stopEtaSchema).optional(),
+});
+export type RouteSummary = z.infer<typeof routeSummarySchema>;
+
+// Werte aus der Matrix; nicht erreichbare Punkte ergeben null (JSON: Infinity)
+const matrixValue = z.number().nullable().optional();
+
+export const routeOptimizationSchema = z.object({
+  applied: z.boolean(),
+  reason: z.string().optional(),
+  /** Waypoint-IDs in neuer Reihenfolge */
+  order: z.array(z.string()).optional(),
+  changed: z.boolean().optional(),
+  roundTrip: z.boolean().optional(),
+  originalDistanceMeters: matrixValue,
+  originalDurationSeconds: matrixValue,
+  optimizedDistanceMeters: matrixValue,
+  optimizedDurationSeconds: matrixValue,
+  savedDistanceMeters: matrixValue,
+  savedDurationSeconds: matrixValue,
+});
+export type RouteOptimization = z.infer<typeof routeOptimizationSchema>;
+
+export const geocodeCandidateSchema = z.object({
+  lat: z.number(),
+  lng: z.number(),
+  label: z.string(),
+  countryCode: z.string().optional(),
+});
+export type GeocodeCandidate = z.infer<typeof geocodeCandidateSchema>;
+
+/** Adresse mit mehreren plausiblen Treffern; gerechnet wurde mit dem ersten */
+export const geocodeAmbiguitySchema = z.object({
+  id: z.string(),
+  address: z.string(),
+  candidates: z.array(geocodeCandidateSchema),
+});
+export type GeocodeAmbiguity = z.infer<typeof geocodeAmbiguitySchema>;
+
+export const geocodingInfoSchema = z.object({
+  countryCodes: z.array(z.string()),
+  ambiguities: z.array(geocodeAmbiguitySchema),
+});
+export type GeocodingInfo = z.infer<typeof geocodingInfoSchema>;
+
+// Geocodete Punkte kommen immer mit Koordinaten zurück
+const resolvedWaypointSchema = waypointSchema.extend({
+  lat: latitude,
+  lng: longitude,
+});
+
+export const routeCacheInfoSchema = z.object({
+  /** bypass = Cache auf Wunsch übergangen, Ergebnis neu gespeichert */
+  status: z.enum(["hit", "miss", "bypass"]),
+  key: z.string(),
+  /** null = nicht gespeichert (z.B. ohne Datenbank) */
+  expiresAt: z.string().nullable(),
+});
+export type RouteCacheInfo = z.infer<typeof routeCacheInfoSchema>;
+
+export const loopInfoSchema = z.object({
+  /** Tatsächlich verwendeter Seed, zum Wiederholen derselben Runde */
+  seed: z.number(),
+  targetMeters: z.number(),
+});
+export type LoopInfo = z.infer<typeof loopInfoSchema>;
+
+export const routeOkResponseSchema = routeSummarySchema.extend({
+  apiVersion: z.literal(API_VERSION),
+  fallback: z.literal(false),
+  waypoints: z.array(resolvedWaypointSchema),
+  provider: providerNameSchema,
+  optimization: routeOptimizationSchema.optional(),
+  /** Alle Varianten inkl. Hauptroute (Index 0); nur wenn es mehrere gibt */
+  alternatives: z.array(routeSummarySchema).optional(),
+  geocoding: geocodingInfoSchema,
+  cache: routeCacheInfoSchema.optional(),
+  loop: loopInfoSchema.optional(),
+});
+export type RouteOkResponse = z.infer<typeof routeOkResponseSchema>;
+
+/** Ersatzroute (eingeschränkt), wenn der Routing-Dienst keine Route liefern konnte */
+export const routeFallbackResponseSchema = z.object({
+  apiVersion: z.literal(API_VERSION),
+  fallback: z.literal(true),
+  /** road-graph = Offline-Straßennetz, straight-line = Luftlinie */
+  method: z.enum(["road-graph", "straight-line"]),
+  /** Warum keine echte Route berechnet wurde */
+  code: errorCodeSchema,
+  errorMessage: z.string(),
+  distance: z.string(),
+  duration: z.string(),
+  distanceMeters: z.number().optional(),
+  durationSeconds: z.number().optional(),
+  confidence: confidenceSchema,
+  instructions: z.array(z.string()),
+  geometry: lineStringSchema,
+  waypoints: z.array(resolvedWaypointSchema),
+  debug: z.record(z.unknown()).optional(),
+  geocoding: geocodingInfoSchema.optional(),
+});
+export type RouteFallbackResponse = z.infer<typeof routeFallbackResponseSchema>;
+
+export const routeResponseSchema = z.discriminatedUnion("fallback", [
+  routeOkResponseSchema,
+  routeFallbackResponseSchema,
+]);
+export type RouteResponse = z.infer<typeof routeResponseSchema>;
+
+/** 4xx/5xx-Antworten; error ist nur ein lesbarer Hinweis, maßgeblich ist code */
+export const errorResponseSchema = z.object({
+  apiVersion: z.literal(API_VERSION),
+  code: errorCodeSchema,
+  error: z.string(),
+  /** Betroffene Routenpunkte, z.B. bei GEOCODE_FAILED */
+  waypointIds: z.array(z.string()).optional(),
+  /** Validierungsfehler je Feld, z.B. "waypoints.1.lat" */
+  issues: z.array(z.object({ path: z.string(), message: z.string() }))
+    .optional(),
+  /** Bei RATE_LIMITED: Wartezeit bis zum nächsten Versuch (auch als Retry-After) */
+  retryAfterSeconds: z.number().optional(),
+  /** Bei FORBIDDEN: nötige Mindestrolle */
+  requiredRole: z.string().optional(),
+  debug: z.record(z.unknown()).optional(),
+});
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+/** zod-Fehler in die kompakte issues-Liste der Fehlerantwort umwandeln */
+export function toIssues(error: z.ZodError): ErrorResponse["issues"] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join("."),
+    message: issue.message,
+  }));
+}
@@ -0,0 +1,61 @@
+import {
+  API_VERSION,
+  type ErrorCode,
+  ERROR_STATUS,
+  type ErrorResponse,
+} from "./contract.ts";
+import { jsonResponse } from "./cors.ts";
+import { ProviderError } from "./routing/types.ts";
+
+/** Fehlerantwort mit Code; der HTTP-Status ergibt sich aus dem Code. */
+export function errorResponse(
+  code: ErrorCode,
+  error: string,
+  extra: Pick<
+    ErrorResponse,
+    "waypointIds" | "issues" | "retryAfterSeconds" | "requiredRole" | "debug"
+  > = {},
+) {
+  const body: ErrorResponse = { apiVersion: API_VERSION, code, error, ...extra };
+  return jsonResponse(body, {
+    status: ERROR_STATUS[code],
+    headers: extra.retryAfterSeconds !== undefined
+      ? { "Retry-After": String(extra.retryAfterSeconds) }
+      : undefined,
+  });
+}
+
+/** Request-Body als JSON lesen; liefert bei ungültigem JSON eine 400-Antwort. */
+export async function readJsonBody<T = unknown>(
+  req: Request,
+): Promise<T | Response> {
+  try {
+    return await req.json();
+  } catch {
+    return errorResponse(
+      "INVALID_REQUEST",
+      "Request-Body ist kein gültiges JSON",
+    );
+  }
+}
+
+/** Upstream-Status auf unseren Fehlercode abbilden */
+export function providerErrorCode(err: ProviderError): ErrorCode {
+  if (err.status === 429) return "QUOTA_EXCEEDED";
+  if (err.status === 501) return "PROVIDER_UNSUPPORTED";
+  if (err.status === 503 || err.status === 504) return "PROVIDER_UNAVAILABLE";
+  return "PROVIDER_HTTP_ERROR";
+}
+
+/** Fehler aus dem catch-all: Provider-Fehler bekommen ihren Code, alles andere 500 */
+export function unexpectedErrorResponse(error: unknown, fallbackMessage: string) {
+  if (error instanceof ProviderError) {
+    return errorResponse(providerErrorCode(error), error.message, {
+      debug: error.debug,
+    });
+  }
+  return errorResponse(
+    "INTERNAL_ERROR",
+    error instanceof Error ? error.message : fallbackMessage,
+  );
+}
@@ -0,0 +1,386 @@
+import { haversineKm, type LatLngPoint } from "../geo.ts";
+import type { TravelMode } from "../contract.ts";
+import { upstreamFetch } from "../routing/http.ts";
+import type { LineString } from "../routing/types.ts";
+
+// Offline-Router für Provider-Ausfälle: A* über ein vorbereitetes Straßennetz
+// (regionaler OSM-Auszug, erzeugt mit scripts/build-road-graph.mjs und z.B.
+// im Supabase Storage abgelegt). Ohne FALLBACK_GRAPH_URL bleibt es bei der
+// Luftlinie.
+
+/** Dateiformat, siehe scripts/build-road-graph.mjs */
+export interface RoadGraphFile {
+  version: 1;
+  /** highway-Klassen; edges verweisen per Index darauf */
+  classes: string[];
+  /** [lat, lng] */
+  nodes: [number, number][];
+  /** [von, nach, Meter, Klassenindex, Einbahn (1) / beide Richtungen (0)] */
+  edges: [number, number, number, number, 0 | 1][];
+}
+
+interface RoadGraph {
+  lat: Float64Array;
+  lng: Float64Array;
+  // Adjazenz im CSR-Format: Kanten von Knoten i liegen in offsets[i]..offsets[i+1]
+  offsets: Uint32Array;
+  targets: Uint32Array;
+  meters: Float32Array;
+  classIds: Uint8Array;
+  /** Kante nur in Gegenrichtung der Einbahnstraße (für Fußgänger erlaubt) */
+  reverse: Uint8Array;
+  classes: string[];
+  /** Rasterzellen (~1 km) -> Knoten, für die Suche nach dem nächsten Knoten */
+  grid: Map<string, number[]>;
+}
+
+export interface RoadGraphRoute {
+  geometry: LineString;
+  distanceMeters: number;
+  durationSeconds: number;
+  /** Luftlinie vom Routenpunkt zum nächsten Knoten, größte Abweichung */
+  maxSnapMeters: number;
+}
+
+const GRID_DEG = 0.01;
+// Weiter weg als das liegt der Punkt außerhalb des Auszugs
+const MAX_SNAP_METERS = 2000;
+// Schutz vor endloser Suche in großen Netzen (Edge-Function-Laufzeit)
+const MAX_SETTLED_NODES = 500_000;
+
+const MOTORWAYS = ["motorway", "motorway_link", "trunk", "trunk_link"];
+
+/** km/h je highway-Klasse; fehlende Klasse = für das Profil gesperrt */
+function speedsFor(mode: TravelMode): (roadClass: string) => number | null {
+  switch (mode) {
+    case "car":
+    case "truck": {
+      const max = mode === "truck" ? 80 : 120;
+      const table: Record<string, number> = {
+        motorway: 110,
+        motorway_link: 60,
+        trunk: 90,
+        trunk_link: 50,
+        primary: 70,
+        primary_link: 40,
+        secondary: 60,
+        secondary_link: 40,
+        tertiary: 50,
+        tertiary_link: 30,
+        unclassified: 40,
+        residential: 30,
+        living_street: 10,
+        service: 15,
+        track: 15,
+      };
+      return (c) => (c in table ? Math.min(table[c], max) : null);
+    }
+    case "walking":
+      return (c) => (MOTORWAYS.includes(c) ? null : 5);
+    default: {
+      const cruise = mode === "roadbike" ? 25 : mode === "ebike" ? 22 : 16;
+      return (c) =>
+        MOTORWAYS.includes(c) || c === "steps"
+          ? null
+          : c === "footway" || c === "pedestrian"
+          ? 6 // schieben
+          : c === "track" && mode === "roadbike"
+          ? null
+          : cruise;
+    }
+  }
+}
+
+const maxSpeed = (mode: TravelMode) =>
+  mode === "car" ? 110 : mode === "truck" ? 80 : mode === "walking" ? 5 : 25;
+
+const gridKey = (lat: number, lng: number) =>
+  `${Math.floor(lat / GRID_DEG)}:${Math.floor(lng / GRID_DEG)}`;
+
+function buildGraph(file: RoadGraphFile): RoadGraph {
+  const n = file.nodes.length;
+  const lat = new Float64Array(n);
+  const lng = new Float64Array(n);
+  const grid = new Map<string, number[]>();
+  file.nodes.forEach(([la, ln], i) => {
+    lat[i] = la;
+    lng[i] = ln;
+    const key = gridKey(la, ln);
+    const bucket = grid.get(key);
+    if (bucket) bucket.push(i);
+    else grid.set(key, [i]);
+  });
+
+  // Jede Kante in beide Richtungen eintragen; Einbahn-Gegenrichtung markiert
+  const degree = new Uint32Array(n + 1);
+  for (const [from, to] of file.edges) {
+    degree[from]++;
+    degree[to]++;
+  }
+  const offsets = new Uint32Array(n + 1);
+  for (let i = 0; i < n; i++) offsets[i + 1] = offsets[i] + degree[i];
+  const cursor = offsets.slice(0, n);
+  const total = offsets[n];
+  const targets = new Uint32Array(total);
+  const meters = new Float32Array(total);
+  const classIds = new Uint8Array(total);
+  const reverse = new Uint8Array(total);
+  const add = (from: number, to: number, m: number, c: number, rev: number) => {
+    const slot = cursor[from]++;
+    targets[slot] = to;
+    meters[slot] = m;
+    classIds[slot] = c;
+    reverse[slot] = rev;
+  };
+  for (const [from, to, m, c, oneway] of file.edges) {
+    add(from, to, m, c, 0);
+    add(to, from, m, c, oneway);
+  }
+
+  return {
+    lat,
+    lng,
+    offsets,
+    targets,
+    meters,
+    classIds,
+    reverse,
+    classes: file.classes,
+    grid,
+  };
+}
+
+let graphPromise: Promise<RoadGraph | null> | undefined;
+
+/** Graph einmal pro Instanz laden; null = nicht konfiguriert oder defekt */
+export function loadRoadGraph(): Promise<RoadGraph | null> {
+  if (graphPromise) return graphPromise;
+  const url = Deno.env.get("FALLBACK_GRAPH_URL");
+  if (!url) return Promise.resolve(null);
+
+  graphPromise = (async () => {
+    try {
+      const res = await upstreamFetch("road-graph", url, {}, {
+        timeoutMs: 20_000,
+        retries: 1,
+      });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const file: RoadGraphFile = await res.json();
+      if (file.version !== 1) throw new Error(`Version ${file.version}`);
+      return buildGraph(file);
+    } catch (err) {
+      console.error("Road graph could not be loaded:", err);
+      // Beim nächsten Aufruf erneut versuchen
+      graphPromise = undefined;
+      return null;
+    }
+  })();
+  return graphPromise;
+}
+
+function nearestNode(
+  graph: RoadGraph,
+  point: LatLngPoint,
+  allowed: (node: number) => boolean,
+): { node: number; meters: number } | null {
+  const row = Math.floor(point.lat / GRID_DEG);
+  const col = Math.floor(point.lng / GRID_DEG);
+  let best = null as { node: number; meters: number } | null;
+  // Ring für Ring nach außen, bis ein Treffer sicher der nächste ist
+  for (let ring = 0; ring <= 3; ring++) {
+    for (let r = row - ring; r <= row + ring; r++) {
+      for (let c = col - ring; c <= col + ring; c++) {
+        if (Math.max(Math.abs(r - row), Math.abs(c - col)) !== ring) continue;
+        for (const node of graph.grid.get(`${r}:${c}`) ?? []) {
+          if (!allowed(node)) continue;
+          const meters = haversineKm(
+            point.lat,
+            point.lng,
+            graph.lat[node],
+            graph.lng[node],
+          ) * 1000;
+          if (!best || meters < best.meters) best = { node, meters };
+        }
+      }
+    }
+    if (best && best.meters <= ring * GRID_DEG * 111_000 * 0.5) break;
+  }
+  return best && best.meters <= MAX_SNAP_METERS ? best : null;
+}
+
+// Minimaler Binär-Heap (Knoten nach f-Wert)
+class MinHeap {
+  private nodes: number[] = [];
+  private keys: number[] = [];
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  push(node: number, key: number) {
+    this.nodes.push(node);
+    this.keys.push(key);
+    let i = this.nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.keys[parent] <= this.keys[i]) break;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const top = this.nodes[0];
+    const lastNode = this.nodes.pop()!;
+    const lastKey = this.keys.pop()!;
+    if (this.nodes.length) {
+      this.nodes[0] = lastNode;
+      this.keys[0] = lastKey;
+      let i = 0;
+      for (;;) {
+        const l = 2 * i + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < this.keys.length && this.keys[l] < this.keys[smallest]) {
+          smallest = l;
+        }
+        if (r < this.keys.length && this.keys[r] < this.keys[smallest]) {
+          smallest = r;
+        }
+        if (smallest === i) break;
+        this.swap(i, smallest);
+        i = smallest;
+      }
+    }
+    return top;
+  }
+
+  private swap(a: number, b: number) {
+    [this.nodes[a], this.nodes[b]] = [this.nodes[b], this.nodes[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
+
+/** A* nach Fahrzeit; liefert Knotenfolge, Meter und Sekunden oder null */
+function shortestPath(
+  graph: RoadGraph,
+  from: number,
+  to: number,
+  mode: TravelMode,
+) {
+  const speedOf = speedsFor(mode);
+  const classSpeeds = graph.classes.map(speedOf);
+  const ignoreOneway = mode === "walking";
+  const heuristicMps = maxSpeed(mode) / 3.6;
+  const h = (node: number) =>
+    haversineKm(
+      graph.lat[node],
+      graph.lng[node],
+      graph.lat[to],
+      graph.lng[to],
+    ) *
+    1000 / heuristicMps;
+
+  const cost = new Map<number, number>([[from, 0]]);
+  const previous = new Map<number, number>();
+  const closed = new Set<number>();
+  const open = new MinHeap();
+  open.push(from, h(from));
+
+  while (open.size) {
+    const node = open.pop();
+    if (closed.has(node)) continue;
+    if (node === to) break;
+    closed.add(node);
+    if (closed.size > MAX_SETTLED_NODES) return null;
+
+    const base = cost.get(node)!;
+    for (let e = graph.offsets[node]; e < graph.offsets[node + 1]; e++) {
+      if (graph.reverse[e] && !ignoreOneway) continue;
+      const speed = classSpeeds[graph.classIds[e]];
+      if (!speed) continue;
+      const next = graph.targets[e];
+      const candidate = base + graph.meters[e] / (speed / 3.6);
+      if (candidate < (cost.get(next) ?? Infinity)) {
+        cost.set(next, candidate);
+        previous.set(next, node);
+        open.push(next, candidate + h(next));
+      }
+    }
+  }
+
+  if (!cost.has(to)) return null;
+  const path = [to];
+  while (path[path.length - 1] !== from) {
+    path.push(previous.get(path[path.length - 1])!);
+  }
+  path.reverse();
+
+  let meters = 0;
+  for (let i = 0; i < path.length - 1; i++) {
+    meters += haversineKm(
+      graph.lat[path[i]],
+      graph.lng[path[i]],
+      graph.lat[path[i + 1]],
+      graph.lng[path[i + 1]],
+    ) * 1000;
+  }
+  return { path, meters, seconds: cost.get(to)! };
+}
+
+/**
+ * Route über das Offline-Netz. null, wenn kein Graph geladen ist, ein Punkt
+ * außerhalb liegt oder zwei Punkte nicht verbunden sind.
+ */
+export async function routeOnRoadGraph(
+  points: LatLngPoint[],
+  mode: TravelMode,
+): Promise<RoadGraphRoute | null> {
+  const graph = await loadRoadGraph();
+  if (!graph || points.length < 2) return null;
+
+  // Nur Knoten, die das Profil überhaupt befahren darf
+  const speedOf = speedsFor(mode);
+  const usable = (node: number) => {
+    for (let e = graph.offsets[node]; e < graph.offsets[node + 1]; e++) {
+      if (speedOf(graph.classes[graph.classIds[e]])) return true;
+    }
+    return false;
+  };
+  const snapped = points.map((p) => nearestNode(graph, p, usable));
+  if (snapped.some((s) => !s)) return null;
+
+  // Linie beginnt und endet an den echten Punkten, nicht an den Knoten
+  const coordinates: [number, number][] = snapped[0]!.meters > 0
+    ? [[points[0].lng, points[0].lat]]
+    : [];
+  let distanceMeters = 0;
+  let durationSeconds = 0;
+  for (let i = 0; i < snapped.length - 1; i++) {
+    const leg = shortestPath(
+      graph,
+      snapped[i]!.node,
+      snapped[i + 1]!.node,
+      mode,
+    );
+    if (!leg) return null;
+    distanceMeters += leg.meters;
+    durationSeconds += leg.seconds;
+    leg.path.forEach((node, j) => {
+      if (i > 0 && j === 0) return; // Verbindungsknoten nicht doppelt
+      coordinates.push([graph.lng[node], graph.lat[node]]);
+    });
+  }
+
+  const last = points[points.length - 1];
+  if (snapped[snapped.length - 1]!.meters > 0) {
+    coordinates.push([last.lng, last.lat]);
+  }
+
+  return {
+    geometry: { type: "LineString", coordinates },
+    distanceMeters: Math.round(distanceMeters),
+    durationSeconds: Math.round(durationSeconds),
+    maxSnapMeters: Math.round(Math.max(...snapped.map((s) => s!.meters))),
+  };
+}
@@ -0,0 +1,44 @@
+export type LatLngPoint = { lat: number; lng: number };
+
+// Haversine-Distanz in km
+export function haversineKm(
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+) {
+  const R = 6371;
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLon = (lon2 - lon1) * Math.PI / 180;
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * Math.PI / 180) *
+      Math.cos(lat2 * Math.PI / 180) *
+      Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+// Luftlinie entlang der Punkte (Summe der Teilstrecken)
+export function calculateSimpleDistance(waypoints: LatLngPoint[]): number {
+  if (waypoints.length < 2) return 0;
+  let totalKm = 0;
+  for (let i = 0; i < waypoints.length - 1; i++) {
+    const from = waypoints[i];
+    const to = waypoints[i + 1];
+    totalKm += haversineKm(from.lat, from.lng, to.lat, to.lng);
+  }
+  return totalKm;
+}
+
+// Liniendistanz aus GeoJSON-LineString ([lon,lat])
+export function distanceFromLineStringKm(coords: [number, number][]) {
+  let sum = 0;
+  for (let i = 0; i < coords.length - 1; i++) {
+    const [lon1, lat1] = coords[i];
+    const [lon2, lat2] = coords[i + 1];
+    if ([lon1, lat1, lon2, lat2].every(Number.isFinite)) {
+      sum += haversineKm(lat1, lon1, lat2, lon2);
+    }
+  }
+  return sum;
+}
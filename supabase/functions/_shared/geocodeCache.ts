@@ -0,0 +1,122 @@
+import type {
+  GeocodeCandidate,
+  GeocodeOptions,
+} from "./routing/types.ts";
+import { getAdminClient } from "./supabase.ts";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Gefundene Adressen ändern sich selten, "nicht gefunden" eher (Tippfehler
+// werden korrigiert, OSM wird ergänzt) -> kürzere TTL
+const DEFAULT_TTL_DAYS = 30;
+const NEGATIVE_TTL_DAYS = 1;
+
+interface GeocodeCacheRow {
+  query_key: string;
+  address: string;
+  lat: number | null;
+  lng: number | null;
+  candidates: GeocodeCandidate[] | null;
+  is_override: boolean;
+  miss_count: number;
+  expires_at: string | null;
+}
+
+/** Cache-Schlüssel: Kleinschreibung, Whitespace und Satzzeichen vereinheitlicht. */
+export function normalizeAddress(address: string): string {
+  return address
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[.,;]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Länderliste gehört zum Schlüssel (sie filtert), der Ortsbezug nicht – er
+ * ändert nur die Reihenfolge und würde den Cache sonst wertlos machen.
+ */
+function cacheKey(address: string, countryCodes: string[] | undefined) {
+  const normalized = normalizeAddress(address);
+  if (!normalized) return "";
+  const countries = countryCodes?.length
+    ? [...countryCodes].sort().join(",")
+    : "*";
+  return `${countries}|${normalized}`;
+}
+
+function ttlDays(): number {
+  const days = Number(Deno.env.get("GEOCODE_CACHE_TTL_DAYS"));
+  return Number.isFinite(days) && days > 0 ? days : DEFAULT_TTL_DAYS;
+}
+
+function candidatesFromRow(row: GeocodeCacheRow): GeocodeCandidate[] {
+  // Manuelle Korrektur: genau ein Treffer, egal was upstream liefert
+  if (row.is_override || !row.candidates) {
+    return row.lat != null && row.lng != null
+      ? [{ lat: row.lat, lng: row.lng, label: row.address }]
+      : [];
+  }
+  return row.candidates;
+}
+
+type Geocoder = (
+  address: string,
+  options?: GeocodeOptions,
+) => Promise<GeocodeCandidate[]>;
+
+/**
+ * Geocoder mit Supabase-Cache umhüllen. Ohne Datenbank (oder bei
+ * DB-Fehlern) wird direkt upstream gefragt – der Cache ist nie kritisch.
+ * Wirft der Geocoder (Upstream-Fehler), wird nichts gespeichert; "nicht
+ * gefunden" gibt es nur für echte leere Ergebnisse.
+ */
+export function withGeocodeCache(
+  geocode: Geocoder,
+  providerName: string,
+): Geocoder {
+  return async (address, options) => {
+    const db = getAdminClient();
+    const key = cacheKey(address, options?.countryCodes);
+    if (!db || !key) return geocode(address, options);
+
+    const { data: cached, error } = await db
+      .from("geocode_cache")
+      .select(
+        "query_key, address, lat, lng, candidates, is_override, miss_count, expires_at",
+      )
+      .eq("query_key", key)
+      .maybeSingle<GeocodeCacheRow>();
+    if (error) console.error("geocode_cache read error:", error.message);
+
+    const fresh = cached &&
+      (cached.is_override ||
+        !cached.expires_at ||
+        new Date(cached.expires_at).getTime() > Date.now());
+    if (cached && fresh) {
+      const { error: hitError } = await db.rpc("geocode_cache_hit", {
+        _query_key: key,
+      });
+      if (hitError) console.error("geocode_cache hit error:", hitError.message);
+      return candidatesFromRow(cached);
+    }
+
+    const candidates = await geocode(address, options);
+    const best = candidates[0];
+    const ttl = best ? ttlDays() : NEGATIVE_TTL_DAYS;
+    const { error: writeError } = await db.from("geocode_cache").upsert({
+      query_key: key,
+      address,
+      lat: best?.lat ?? null,
+      lng: best?.lng ?? null,
+      candidates,
+      provider: providerName,
+      miss_count: (cached?.miss_count ?? 0) + 1,
+      expires_at: new Date(Date.now() + ttl * DAY_MS).toISOString(),
+      updated_at: new Date().toISOString(),
+    });
+    if (writeError) {
+      console.error("geocode_cache write error:", writeError.message);
+    }
+    return candidates;
+  };
+}
@@ -0,0 +1,95 @@
+import { haversineKm, type LatLngPoint } from "./geo.ts";
+import type {
+  GeocodeCandidate,
+  GeocodeOptions,
+  RoutingProvider,
+} from "./routing/types.ts";
+
+// Treffer, die weiter als das auseinanderliegen, gelten als verschiedene Orte
+// (z.B. Frankfurt am Main vs. Frankfurt (Oder))
+const AMBIGUITY_KM = 5;
+const MAX_CANDIDATES = 5;
+
+export interface GeocodeAmbiguity {
+  id: string;
+  address: string;
+  candidates: GeocodeCandidate[];
+}
+
+interface Geocodable {
+  id?: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+}
+
+/**
+ * Länderliste aus dem Request (Benutzereinstellung), sonst GEOCODE_COUNTRIES
+ * als Workspace-Vorgabe, sonst weltweit. Leere Liste im Request = Vorgabe.
+ */
+export function resolveCountryCodes(requested?: unknown): string[] {
+  const raw = Array.isArray(requested) && requested.length
+    ? requested
+    : (Deno.env.get("GEOCODE_COUNTRIES") ?? "").split(",");
+  return [
+    ...new Set(
+      raw
+        .filter((c): c is string => typeof c === "string")
+        .map((c) => c.trim().toLowerCase())
+        .filter((c) => /^[a-z]{2}$/.test(c)),
+    ),
+  ];
+}
+
+/** Ortsbezug aus dem Request übernehmen, wenn es gültige Koordinaten sind. */
+export function parseBias(value: unknown): LatLngPoint | undefined {
+  const bias = value as Partial<LatLngPoint> | null | undefined;
+  return Number.isFinite(bias?.lat) && Number.isFinite(bias?.lng)
+    ? { lat: Number(bias?.lat), lng: Number(bias?.lng) }
+    : undefined;
+}
+
+/** Räumlich verschiedene Treffer; mehr als einer = mehrdeutig. */
+function distinctCandidates(candidates: GeocodeCandidate[]) {
+  const distinct: GeocodeCandidate[] = [];
+  for (const c of candidates) {
+    const isNew = distinct.every((d) =>
+      haversineKm(d.lat, d.lng, c.lat, c.lng) > AMBIGUITY_KM
+    );
+    if (isNew) distinct.push(c);
+  }
+  return distinct.slice(0, MAX_CANDIDATES);
+}
+
+/**
+ * Fehlende Koordinaten per Geocoding ergänzen (bester Treffer). Vorhandene
+ * Koordinaten haben Vorrang. Mehrdeutige Adressen werden zusätzlich gemeldet,
+ * damit der Client eine Auswahl anbieten kann.
+ */
+export async function geocodeAll<T extends Geocodable>(
+  provider: RoutingProvider,
+  items: T[],
+  options: GeocodeOptions,
+): Promise<{ items: T[]; ambiguities: GeocodeAmbiguity[] }> {
+  const ambiguities: GeocodeAmbiguity[] = [];
+  const resolved = await Promise.all(
+    items.map(async (item, i) => {
+      if (Number.isFinite(item.lat) && Number.isFinite(item.lng)) return item;
+      if (!item.address) return item;
+
+      const candidates = await provider.geocode(item.address, options);
+      if (!candidates.length) return item;
+
+      const distinct = distinctCandidates(candidates);
+      if (distinct.length > 1) {
+        ambiguities.push({
+          id: item.id ?? String(i),
+          address: item.address,
+          candidates: distinct,
+        });
+      }
+      return { ...item, lat: candidates[0].lat, lng: candidates[0].lng };
+    }),
+  );
+  return { items: resolved, ambiguities };
+}
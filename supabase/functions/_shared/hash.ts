@@ -0,0 +1,10 @@
+/** SHA-256 als Hex-String (WebCrypto, in Deno global verfügbar) */
+export async function sha256(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(value),
+  );
+  return [...new Uint8Array(digest)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
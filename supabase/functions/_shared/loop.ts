@@ -0,0 +1,82 @@
+// Rundtouren: Eckpunkte auf einem Kreis durch den Start, so bemessen, dass
+// die Straßenstrecke etwa der Ziellänge entspricht. Der Seed bestimmt Richtung
+// und Form, damit dieselbe Runde reproduzierbar bleibt.
+
+import type { LatLngPoint } from "./geo.ts";
+
+/** Eckpunkte ohne den Start; mehr machen die Runde eckiger, nicht runder */
+const LOOP_POINTS = 4;
+// Radius und Winkel je Punkt so stark variieren (Anteil)
+const RADIUS_JITTER = 0.25;
+const ANGLE_JITTER = 0.35;
+
+const EARTH_RADIUS_M = 6371000;
+
+/** Deterministischer Zufall (mulberry32) */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 2 ** 31);
+}
+
+// Punkt in gegebener Entfernung und Richtung (Bogenmaß, 0 = Norden)
+function offset(
+  from: LatLngPoint,
+  meters: number,
+  bearing: number,
+): LatLngPoint {
+  const lat1 = (from.lat * Math.PI) / 180;
+  const lng1 = (from.lng * Math.PI) / 180;
+  const d = meters / EARTH_RADIUS_M;
+  const lat2 = Math.asin(
+    Math.sin(lat1) * Math.cos(d) +
+      Math.cos(lat1) * Math.sin(d) * Math.cos(bearing),
+  );
+  const lng2 = lng1 +
+    Math.atan2(
+      Math.sin(bearing) * Math.sin(d) * Math.cos(lat1),
+      Math.cos(d) - Math.sin(lat1) * Math.sin(lat2),
+    );
+  return {
+    lat: Number(((lat2 * 180) / Math.PI).toFixed(6)),
+    lng: Number(((lng2 * 180) / Math.PI).toFixed(6)),
+  };
+}
+
+/**
+ * Zwischenpunkte einer Rundtour ab start (ohne Start selbst). Die Luftlinie
+ * des Vielecks mal detourFactor ergibt ungefähr targetMeters.
+ */
+export function loopPoints(
+  start: LatLngPoint,
+  targetMeters: number,
+  detourFactor: number,
+  seed: number,
+): LatLngPoint[] {
+  const random = seededRandom(seed);
+  const corners = LOOP_POINTS + 1;
+  // Umfang eines regelmäßigen n-Ecks im Kreis mit Radius r: 2·n·r·sin(π/n)
+  const radius = targetMeters /
+    (detourFactor * 2 * corners * Math.sin(Math.PI / corners));
+  // Kreismittelpunkt in zufälliger Richtung; der Start liegt auf dem Kreis
+  const heading = random() * 2 * Math.PI;
+  const center = offset(start, radius, heading);
+  const backToStart = heading + Math.PI;
+  const step = (2 * Math.PI) / corners;
+
+  return Array.from({ length: LOOP_POINTS }, (_, i) => {
+    const angle = backToStart +
+      step * (i + 1 + (random() - 0.5) * ANGLE_JITTER);
+    const r = radius * (1 + (random() - 0.5) * 2 * RADIUS_JITTER);
+    return offset(center, r, angle);
+  });
+}
@@ -0,0 +1,86 @@
+// Reihenfolge-Optimierung (TSP) auf einer Kostenmatrix.
+// Nearest Neighbor als Startlösung, danach 2-opt bis keine Verbesserung mehr.
+// Für die typischen 5–15 Stopps ist das schnell genug und nahe am Optimum.
+
+type CostMatrix = (number | null)[][];
+
+function edgeCost(cost: CostMatrix, from: number, to: number) {
+  const v = cost[from]?.[to];
+  return v == null || !Number.isFinite(v) ? Infinity : v;
+}
+
+/** Kosten einer Reihenfolge; bei roundTrip inkl. Rückweg zum ersten Punkt. */
+export function tourCost(
+  order: number[],
+  cost: CostMatrix,
+  roundTrip: boolean,
+): number {
+  let sum = 0;
+  for (let i = 0; i < order.length - 1; i++) {
+    sum += edgeCost(cost, order[i], order[i + 1]);
+  }
+  if (roundTrip && order.length > 1) {
+    sum += edgeCost(cost, order[order.length - 1], order[0]);
+  }
+  return sum;
+}
+
+/**
+ * Optimiert die Besuchsreihenfolge der Punkte 0..n-1.
+ * Punkt 0 (Start) bleibt immer vorne; ohne roundTrip bleibt auch der letzte
+ * Punkt (Ziel) fest. Liefert die Indizes in neuer Reihenfolge.
+ */
+export function optimizeOrder(cost: CostMatrix, roundTrip: boolean): number[] {
+  const n = cost.length;
+  if (n <= 3 && !roundTrip) return [...Array(n).keys()];
+
+  const last = n - 1;
+  const free = [...Array(n).keys()].filter((i) =>
+    i !== 0 && (roundTrip || i !== last)
+  );
+
+  // Nearest Neighbor ab Start
+  const order = [0];
+  const remaining = new Set(free);
+  while (remaining.size) {
+    const current = order[order.length - 1];
+    let best = -1;
+    let bestCost = Infinity;
+    for (const candidate of remaining) {
+      const c = edgeCost(cost, current, candidate);
+      if (best === -1 || c < bestCost) {
+        best = candidate;
+        bestCost = c;
+      }
+    }
+    order.push(best);
+    remaining.delete(best);
+  }
+  if (!roundTrip) order.push(last);
+
+  // 2-opt: Teilstücke umdrehen, solange es günstiger wird.
+  // Kosten komplett neu rechnen, weil die Matrix asymmetrisch sein kann.
+  const lastMovable = roundTrip ? order.length - 1 : order.length - 2;
+  let bestCost = tourCost(order, cost, roundTrip);
+  let improved = true;
+  while (improved) {
+    improved = false;
+    for (let i = 1; i < lastMovable; i++) {
+      for (let k = i + 1; k <= lastMovable; k++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, k + 1).reverse(),
+          ...order.slice(k + 1),
+        ];
+        const c = tourCost(candidate, cost, roundTrip);
+        if (c < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = c;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
@@ -0,0 +1,137 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.55.0";
+import { errorResponse } from "./errors.ts";
+import { sha256 } from "./hash.ts";
+import { getAdminClient } from "./supabase.ts";
+
+export interface RateLimit {
+  /** Erlaubte Anfragen je Fenster */
+  limit: number;
+  windowSeconds: number;
+}
+
+/**
+ * Grenze aus RATE_LIMIT_<FUNCTION> lesen, z.B. RATE_LIMIT_CALCULATE_ROUTE=30/60
+ * (30 Anfragen pro 60 s); sonst gilt der Default der Function.
+ */
+export function rateLimitFor(functionName: string, defaults: RateLimit): RateLimit {
+  const envName = `RATE_LIMIT_${functionName.toUpperCase().replace(/-/g, "_")}`;
+  const match = Deno.env.get(envName)?.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match) return defaults;
+  const limit = Number(match[1]);
+  const windowSeconds = Number(match[2]);
+  return limit > 0 && windowSeconds > 0 ? { limit, windowSeconds } : defaults;
+}
+
+function jwtRole(token: string): unknown {
+  try {
+    const payload = token.split(".")[1].replace(/-/g, "+").replace(/_/g, "/");
+    return JSON.parse(atob(payload)).role;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Client-IP, wie sie die Plattform gesetzt hat. Frühere Einträge in
+ * x-forwarded-for stammen vom Client und sind frei wählbar – nur der letzte
+ * Hop (vom Proxy angehängt) zählt. cf-connecting-ip nur, wenn die Functions
+ * hinter Cloudflare laufen (TRUST_CF_CONNECTING_IP=true), sonst kann ihn
+ * jeder Client setzen.
+ */
+function clientIp(req: Request): string | undefined {
+  if (Deno.env.get("TRUST_CF_CONNECTING_IP") === "true") {
+    const cfIp = req.headers.get("cf-connecting-ip")?.trim();
+    if (cfIp) return cfIp;
+  }
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")
+    .map((hop) => hop.trim()).filter(Boolean);
+  return forwarded?.[forwarded.length - 1];
+}
+
+/** Gehashter Key, wenn er in api_keys steht und nicht widerrufen ist */
+async function validApiKeyHash(
+  req: Request,
+  db: SupabaseClient,
+): Promise<string | null> {
+  const apiKey = req.headers.get("x-api-key");
+  if (!apiKey) return null;
+  const keyHash = await sha256(apiKey);
+  const { data, error } = await db
+    .from("api_keys")
+    .select("key_hash")
+    .eq("key_hash", keyHash)
+    .is("revoked_at", null)
+    .maybeSingle();
+  if (error) console.error("api_keys read error:", error.message);
+  return data ? keyHash : null;
+}
+
+/**
+ * Wer zählt: angemeldeter Nutzer, sonst gültiger API-Key, sonst Client-IP.
+ * Unbekannte Keys bekommen keinen eigenen Topf.
+ */
+async function sourceIdentity(
+  req: Request,
+  db: SupabaseClient,
+  userId?: string,
+): Promise<string> {
+  if (userId) return `user:${userId}`;
+  const token = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "");
+  // Der anon-Key ist auch ein JWT – nur echte Nutzer-Tokens prüfen
+  if (token && jwtRole(token) === "authenticated") {
+    const { data } = await db.auth.getUser(token);
+    if (data.user) return `user:${data.user.id}`;
+  }
+
+  const keyHash = await validApiKeyHash(req, db);
+  if (keyHash) return `key:${keyHash.slice(0, 32)}`;
+
+  return `ip:${clientIp(req) ?? "unknown"}`;
+}
+
+/**
+ * Anfrage in rate_limits zählen. Liefert eine 429-Antwort mit Retry-After,
+ * wenn das Fenster ausgeschöpft ist, sonst null. Ohne Datenbank (oder bei
+ * DB-Fehlern) wird nicht begrenzt – der Limiter soll nichts lahmlegen.
+ * userId: bereits geprüfter Nutzer (spart die erneute Token-Prüfung).
+ */
+export async function enforceRateLimit(
+  req: Request,
+  functionName: string,
+  defaults: RateLimit,
+  userId?: string,
+): Promise<Response | null> {
+  const db = getAdminClient();
+  if (!db) return null;
+
+  const { limit, windowSeconds } = rateLimitFor(functionName, defaults);
+  try {
+    const sourceKey = `${functionName}:${await sourceIdentity(req, db, userId)}`;
+    const { data, error } = await db
+      .rpc("rate_limit_hit", {
+        _source_key: sourceKey,
+        _window_seconds: windowSeconds,
+      })
+      .single<{ request_count: number; window_start: string }>();
+    if (error) {
+      console.error("rate_limit_hit error:", error.message);
+      return null;
+    }
+    if (data.request_count <= limit) return null;
+
+    const resetAt = new Date(data.window_start).getTime() +
+      windowSeconds * 1000;
+    const retryAfterSeconds = Math.max(
+      1,
+      Math.ceil((resetAt - Date.now()) / 1000),
+    );
+    return errorResponse(
+      "RATE_LIMITED",
+      `Zu viele Anfragen (max. ${limit} pro ${windowSeconds} s)`,
+      { retryAfterSeconds },
+    );
+  } catch (err) {
+    console.error("rate limit check failed:", err);
+    return null;
+  }
+}
@@ -0,0 +1,143 @@
+import {
+  API_VERSION,
+  type ParsedRouteRequest,
+  type RouteOkResponse,
+  routeOkResponseSchema,
+} from "./contract.ts";
+import { normalizeAddress } from "./geocodeCache.ts";
+import { sha256 } from "./hash.ts";
+import { getAdminClient } from "./supabase.ts";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DEFAULT_TTL_HOURS = 24;
+
+interface RouteCacheRow {
+  response: unknown;
+  expires_at: string;
+}
+
+function ttlHours(): number {
+  const hours = Number(Deno.env.get("ROUTE_CACHE_TTL_HOURS"));
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_TTL_HOURS;
+}
+
+// ~1 m; kleinere Unterschiede (Marker minimal verschoben) ergeben dieselbe Route
+const roundCoord = (value: number) => Math.round(value * 1e5) / 1e5;
+
+/**
+ * Alles, was das Ergebnis beeinflusst, in fester Reihenfolge. Ids und Labels
+ * gehören dazu, weil sie in legs/etas der Antwort stehen; allowFallback nicht,
+ * weil Luftlinien ohnehin nicht gecacht werden.
+ */
+function normalizeRequest(request: ParsedRouteRequest, providerName: string) {
+  const needsGeocoding = request.waypoints.some((w) =>
+    w.lat === undefined || w.lng === undefined
+  );
+  return {
+    apiVersion: API_VERSION,
+    provider: providerName,
+    waypoints: request.waypoints.map((w) => [
+      w.id,
+      w.label,
+      w.lat !== undefined && w.lng !== undefined
+        ? [roundCoord(w.lat), roundCoord(w.lng)]
+        : normalizeAddress(w.address),
+      w.dwellMinutes ?? 0,
+    ]),
+    mode: request.mode,
+    avoidTolls: !!request.avoidTolls,
+    avoidHighways: !!request.avoidHighways,
+    fastestRoute: !!request.fastestRoute,
+    avoidSteps: !!request.avoidSteps,
+    avoidFerries: !!request.avoidFerries,
+    avoidFords: !!request.avoidFords,
+    avoidUnpaved: !!request.avoidUnpaved,
+    avoidBorders: !!request.avoidBorders,
+    avoidAreas: (request.avoidAreas ?? []).map((area) =>
+      area.coordinates.map((ring) =>
+        ring.map(([lng, lat]) => [roundCoord(lng), roundCoord(lat)])
+      )
+    ),
+    steepnessDifficulty: request.steepnessDifficulty ?? null,
+    vehicle: request.vehicle ?? null,
+    departureTime: request.departureTime ?? null,
+    arrivalTime: request.arrivalTime ?? null,
+    optimizeOrder: !!request.optimizeOrder,
+    roundTrip: !!request.roundTrip,
+    alternatives: !!request.alternatives,
+    // Ohne Seed wäre jede Rundtour anders; calculate-route setzt ihn vorher
+    loop: request.loop
+      ? [
+        request.loop.lengthMeters ?? null,
+        request.loop.durationMinutes ?? null,
+        request.loop.seed ?? null,
+      ]
+      : null,
+    countries: [...(request.countries ?? [])]
+      .map((c) => c.toLowerCase())
+      .sort(),
+    // Ortsbezug zählt nur, wenn noch geocodet werden muss (grob, ~10 km)
+    bias: needsGeocoding && request.bias
+      ? [
+        Math.round(request.bias.lat * 10) / 10,
+        Math.round(request.bias.lng * 10) / 10,
+      ]
+      : null,
+  };
+}
+
+export function routeCacheKey(
+  request: ParsedRouteRequest,
+  providerName: string,
+): Promise<string> {
+  return sha256(JSON.stringify(normalizeRequest(request, providerName)));
+}
+
+/** Gültigen Eintrag lesen; abgelaufene oder nicht mehr vertragskonforme zählen als Miss */
+export async function readRouteCache(
+  key: string,
+): Promise<{ response: RouteOkResponse; expiresAt: string } | null> {
+  const db = getAdminClient();
+  if (!db) return null;
+
+  const { data, error } = await db
+    .from("route_cache")
+    .select("response, expires_at")
+    .eq("request_hash", key)
+    .maybeSingle<RouteCacheRow>();
+  if (error) console.error("route_cache read error:", error.message);
+  if (!data || new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  const parsed = routeOkResponseSchema.safeParse(data.response);
+  if (!parsed.success) return null;
+
+  const { error: hitError } = await db.rpc("route_cache_hit", {
+    _request_hash: key,
+  });
+  if (hitError) console.error("route_cache hit error:", hitError.message);
+  return { response: parsed.data, expiresAt: data.expires_at };
+}
+
+/** Antwort speichern; liefert das Ablaufdatum oder null ohne Datenbank/bei Fehlern */
+export async function writeRouteCache(
+  key: string,
+  response: RouteOkResponse,
+): Promise<string | null> {
+  const db = getAdminClient();
+  if (!db) return null;
+
+  const expiresAt = new Date(Date.now() + ttlHours() * HOUR_MS).toISOString();
+  const { cache: _cache, ...body } = response;
+  const { error } = await db.from("route_cache").upsert({
+    request_hash: key,
+    response: body,
+    provider: response.provider,
+    expires_at: expiresAt,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) {
+    console.error("route_cache write error:", error.message);
+    return null;
+  }
+  return expiresAt;
+}
@@ -0,0 +1,389 @@
+import type { LatLngPoint } from "../geo.ts";
+import { upstreamFetch } from "./http.ts";
+import {
+  type DirectionsRequest,
+  type GeocodeCandidate,
+  type GeocodeOptions,
+  type IsochronePolygon,
+  type IsochroneRequest,
+  type Maneuver,
+  type MatrixRequest,
+  type MatrixResult,
+  ProviderError,
+  type ProviderRoute,
+  type ProviderSegment,
+  type ProviderStep,
+  type RoutingProvider,
+  toMatrix,
+  type TravelMode,
+  unsupportedAvoidWarnings,
+  upstreamErrorMessage,
+} from "./types.ts";
+
+const PROFILES: Record<TravelMode, string> = {
+  car: "car",
+  truck: "truck",
+  bike: "bike",
+  ebike: "bike",
+  roadbike: "racingbike",
+  walking: "foot",
+};
+
+// GraphHopper-Instruktions-"sign" für einen erreichten Zwischenpunkt bzw. das Ziel
+const SIGN_VIA_REACHED = 5;
+const SIGN_FINISH = 4;
+
+interface GhGeocodeHit {
+  point: LatLngPoint;
+  name?: string;
+  postcode?: string;
+  city?: string;
+  country?: string;
+  countrycode?: string;
+}
+
+interface GhInstruction {
+  text?: string;
+  street_name?: string;
+  distance?: number;
+  time?: number; // ms
+  sign?: number;
+  exit_number?: number;
+  interval?: [number, number]; // Indizes in points.coordinates
+}
+
+const MANEUVERS: Record<number, Maneuver> = {
+  [-98]: "uturn",
+  [-8]: "uturn",
+  [-7]: "keep-left",
+  [-3]: "sharp-left",
+  [-2]: "left",
+  [-1]: "slight-left",
+  0: "straight",
+  1: "slight-right",
+  2: "right",
+  3: "sharp-right",
+  [SIGN_FINISH]: "arrive",
+  [SIGN_VIA_REACHED]: "waypoint",
+  6: "roundabout",
+  7: "keep-right",
+  8: "uturn",
+};
+
+interface GhPath {
+  distance?: number;
+  time?: number; // ms
+  points?: { type?: string; coordinates?: [number, number][] };
+  instructions?: GhInstruction[];
+}
+
+// Instruktionen an den erreichten Wegpunkten in Segmente aufteilen
+function splitSegments(instructions: GhInstruction[]): ProviderSegment[] {
+  let first = true;
+  const segments: ProviderSegment[] = [];
+  let current: ProviderSegment = {
+    distanceMeters: 0,
+    durationSeconds: 0,
+    steps: [],
+  };
+  for (const ins of instructions) {
+    const step: ProviderStep = {
+      instruction: String(ins.text ?? ""),
+      distanceMeters: Number(ins.distance) || 0,
+      durationSeconds: (Number(ins.time) || 0) / 1000,
+      // GraphHopper hat kein eigenes "Start"-Zeichen
+      maneuver: first ? "depart" : MANEUVERS[ins.sign ?? 0] ?? "straight",
+      name: ins.street_name ?? "",
+      wayPoints: ins.interval,
+      exit: ins.exit_number,
+    };
+    first = false;
+    current.steps.push(step);
+    current.distanceMeters += step.distanceMeters;
+    current.durationSeconds += step.durationSeconds;
+    if (ins.interval) {
+      current.wayPoints = [
+        current.wayPoints?.[0] ?? ins.interval[0],
+        ins.interval[1],
+      ];
+    }
+    if (ins.sign === SIGN_VIA_REACHED || ins.sign === SIGN_FINISH) {
+      segments.push(current);
+      current = { distanceMeters: 0, durationSeconds: 0, steps: [] };
+    }
+  }
+  if (current.steps.length) segments.push(current);
+  return segments;
+}
+
+// Oberflächen, die als unbefestigt gelten (GraphHopper-Encoded-Value "surface")
+const UNPAVED_CONDITION = [
+  "UNPAVED",
+  "COMPACTED",
+  "FINE_GRAVEL",
+  "GRAVEL",
+  "GROUND",
+  "DIRT",
+  "GRASS",
+  "SAND",
+].map((surface) => `surface == ${surface}`).join(" || ");
+
+export function createGraphHopperProvider(
+  apiKey: string,
+  baseUrl: string,
+): RoutingProvider {
+  return {
+    name: "graphhopper",
+
+    async directions(req: DirectionsRequest): Promise<ProviderRoute[]> {
+      const profile = PROFILES[req.mode];
+      const points = req.coordinates.map((p) => [p.lng, p.lat]);
+
+      // Vermeidungen & Präferenz über ein Custom Model abbilden
+      const priority: Array<{ if: string; multiply_by: string }> = [];
+      if (req.avoidFeatures.includes("highways")) {
+        priority.push({ if: "road_class == MOTORWAY", multiply_by: "0" });
+      }
+      if (req.avoidFeatures.includes("tollways")) {
+        priority.push({ if: "toll != NO", multiply_by: "0" });
+      }
+      if (req.avoidFeatures.includes("steps")) {
+        priority.push({ if: "road_class == STEPS", multiply_by: "0" });
+      }
+      if (req.avoidFeatures.includes("ferries")) {
+        priority.push({ if: "road_environment == FERRY", multiply_by: "0" });
+      }
+      if (req.avoidFeatures.includes("fords")) {
+        priority.push({ if: "road_environment == FORD", multiply_by: "0" });
+      }
+      if (req.avoidFeatures.includes("unpaved")) {
+        priority.push({ if: UNPAVED_CONDITION, multiply_by: "0" });
+      }
+
+      // Sperrflächen als Custom-Model-Areas, referenziert über in_<id>
+      const areas = req.avoidAreas?.map((geometry, i) => ({
+        type: "Feature" as const,
+        id: `avoid${i}`,
+        properties: {},
+        geometry,
+      })) ?? [];
+      for (const area of areas) {
+        priority.push({ if: `in_${area.id}`, multiply_by: "0" });
+      }
+
+      // Fahrzeugabmessungen: Straßen mit zu kleinen Limits sperren
+      const v = req.vehicle;
+      if (v) {
+        const limits: Array<[string, number | undefined]> = [
+          ["max_height", v.heightM],
+          ["max_width", v.widthM],
+          ["max_length", v.lengthM],
+          ["max_weight", v.weightT],
+          ["max_axle_load", v.axleLoadT],
+        ];
+        for (const [field, value] of limits) {
+          if (value !== undefined) {
+            priority.push({ if: `${field} < ${value}`, multiply_by: "0" });
+          }
+        }
+        if (v.hazmatClass) {
+          priority.push({ if: "hazmat == NO", multiply_by: "0" });
+        }
+      }
+      const customModel = priority.length || req.preference === "shortest"
+        ? {
+          priority: priority.length ? priority : undefined,
+          distance_influence: req.preference === "shortest" ? 200 : undefined,
+          areas: areas.length
+            ? { type: "FeatureCollection", features: areas }
+            : undefined,
+        }
+        : undefined;
+
+      const endpoint = "/route";
+      const res = await upstreamFetch(
+        "graphhopper",
+        `${baseUrl}${endpoint}?key=${encodeURIComponent(apiKey)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            points,
+            profile,
+            points_encoded: false,
+            instructions: true,
+            locale: "de",
+            custom_model: customModel,
+            ...(req.alternatives && req.alternatives > 1
+              ? {
+                algorithm: "alternative_route",
+                "alternative_route.max_paths": req.alternatives,
+              }
+              : {}),
+          }),
+        },
+      );
+
+      if (!res.ok) {
+        const txt = await res.text();
+        // Punkte nicht verbindbar -> keine Route statt Upstream-Fehler
+        if (res.status === 400 && txt.includes("ConnectionNotFound")) return [];
+        console.error("GraphHopper error:", txt);
+        throw new ProviderError(
+          `GraphHopper HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile, sentCoordinates: points },
+        );
+      }
+
+      const data = await res.json();
+      const paths: GhPath[] = Array.isArray(data?.paths) ? data.paths : [];
+
+      return paths
+        .filter((p) =>
+          p.points?.type === "LineString" &&
+          Array.isArray(p.points.coordinates)
+        )
+        .map((p): ProviderRoute => ({
+          geometry: {
+            type: "LineString",
+            coordinates: p.points?.coordinates ?? [],
+          },
+          distanceMeters: Number.isFinite(p.distance) ? Number(p.distance) : null,
+          durationSeconds: Number.isFinite(p.time) ? Number(p.time) / 1000 : null,
+          segments: splitSegments(p.instructions ?? []),
+          // Grenzübertritte lassen sich im Custom Model nicht allgemein sperren
+          warnings: unsupportedAvoidWarnings(
+            "GraphHopper",
+            req.avoidFeatures.filter((f) => f === "borders"),
+          ),
+        }));
+    },
+
+    async matrix(req: MatrixRequest): Promise<MatrixResult> {
+      const profile = PROFILES[req.mode];
+      const endpoint = "/matrix";
+      const res = await upstreamFetch(
+        "graphhopper",
+        `${baseUrl}${endpoint}?key=${encodeURIComponent(apiKey)}`,
+        {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            from_points: req.sources.map((p) => [p.lng, p.lat]),
+            to_points: req.destinations.map((p) => [p.lng, p.lat]),
+            profile,
+            out_arrays: ["distances", "times"],
+            fail_fast: false,
+          }),
+        },
+      );
+
+      if (!res.ok) {
+        const txt = await res.text();
+        console.error("GraphHopper matrix error:", txt);
+        throw new ProviderError(
+          `GraphHopper HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile },
+        );
+      }
+
+      const data = await res.json();
+      return {
+        distancesMeters: toMatrix(data?.distances),
+        durationsSeconds: toMatrix(data?.times),
+      };
+    },
+
+    // Budgets müssen nicht gleichmäßig verteilt sein -> ein Aufruf je Budget
+    isochrones(req: IsochroneRequest): Promise<IsochronePolygon[]> {
+      const profile = PROFILES[req.mode];
+      return Promise.all(req.ranges.map(async (range) => {
+        const params = new URLSearchParams({
+          point: `${req.center.lat},${req.center.lng}`,
+          profile,
+          buckets: "1",
+          key: apiKey,
+        });
+        params.set(
+          req.rangeType === "time" ? "time_limit" : "distance_limit",
+          String(Math.round(range)),
+        );
+
+        const endpoint = "/isochrone";
+        const res = await upstreamFetch(
+          "graphhopper",
+          `${baseUrl}${endpoint}?${params}`,
+        );
+        if (!res.ok) {
+          const txt = await res.text();
+          console.error("GraphHopper isochrone error:", txt);
+          throw new ProviderError(
+            `GraphHopper HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+            res.status,
+            { endpoint, profile },
+          );
+        }
+
+        const data = await res.json();
+        const geometry = data?.polygons?.[0]?.geometry;
+        if (geometry?.type !== "Polygon") {
+          throw new ProviderError(
+            "GraphHopper lieferte kein Isochronen-Polygon",
+            502,
+            { endpoint, profile },
+          );
+        }
+        return { range, geometry };
+      }));
+    },
+
+    async geocode(
+      address: string,
+      { countryCodes, bias, limit = 5 }: GeocodeOptions = {},
+    ): Promise<GeocodeCandidate[]> {
+      const params = new URLSearchParams({
+        q: address,
+        locale: "de",
+        // Länderfilter kann GraphHopper nicht -> mehr holen, dann filtern
+        limit: String(countryCodes?.length ? limit * 2 : limit),
+        key: apiKey,
+      });
+      if (bias) params.set("point", `${bias.lat},${bias.lng}`);
+      const endpoint = "/geocode";
+      const res = await upstreamFetch(
+        "graphhopper",
+        `${baseUrl}${endpoint}?${params}`,
+      );
+      // Upstream-Fehler weiterreichen, damit sie nicht als "nicht gefunden" gecacht werden
+      if (!res.ok) {
+        const txt = await res.text();
+        console.error("GraphHopper geocoding error:", txt);
+        throw new ProviderError(
+          `GraphHopper HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint },
+        );
+      }
+
+      const data: { hits?: GhGeocodeHit[] } = await res.json();
+      return (data?.hits ?? [])
+        .filter((hit) =>
+          Number.isFinite(hit.point?.lat) && Number.isFinite(hit.point?.lng)
+        )
+        .map((hit) => ({
+          lat: hit.point.lat,
+          lng: hit.point.lng,
+          label: [hit.name, hit.postcode, hit.city, hit.country]
+            .filter(Boolean).join(", "),
+          countryCode: hit.countrycode?.toLowerCase(),
+        }))
+        .filter((c) =>
+          !countryCodes?.length ||
+          (c.countryCode != null && countryCodes.includes(c.countryCode))
+        )
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,206 @@
+import { getAdminClient } from "../supabase.ts";
+import { ProviderError } from "./types.ts";
+
+// Upstream-Aufrufe mit Timeout, begrenzten Retries und Circuit Breaker.
+// Der Breaker lebt im Speicher der Function-Instanz; Zustandswechsel werden
+// zusätzlich in provider_health geschrieben, damit die health-Function sie sieht.
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface Circuit {
+  state: CircuitState;
+  /** Fehlschläge in Folge */
+  failures: number;
+  openedUntil: number;
+  lastError?: string;
+  /** Halb offen: die eine Probeanfrage läuft noch */
+  probing: boolean;
+}
+
+export interface FetchPolicy {
+  timeoutMs?: number;
+  /** Zusätzliche Versuche nach dem ersten */
+  retries?: number;
+}
+
+const RETRY_BASE_MS = 300;
+const RETRY_MAX_MS = 3000;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(Deno.env.get(name));
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+const defaultTimeoutMs = () => envNumber("UPSTREAM_TIMEOUT_MS", 10_000);
+const defaultRetries = () => envNumber("UPSTREAM_RETRIES", 2);
+const failureThreshold = () => envNumber("CIRCUIT_FAILURE_THRESHOLD", 5) || 1;
+const cooldownMs = () => envNumber("CIRCUIT_COOLDOWN_SECONDS", 30) * 1000;
+
+const circuits = new Map<string, Circuit>();
+
+function circuitFor(service: string): Circuit {
+  let circuit = circuits.get(service);
+  if (!circuit) {
+    circuit = { state: "closed", failures: 0, openedUntil: 0, probing: false };
+    circuits.set(service, circuit);
+  }
+  return circuit;
+}
+
+async function persistCircuit(service: string, circuit: Circuit) {
+  const db = getAdminClient();
+  if (!db) return;
+  const { error } = await db.from("provider_health").upsert({
+    provider: service,
+    state: circuit.state,
+    failures: circuit.failures,
+    open_until: circuit.state === "open"
+      ? new Date(circuit.openedUntil).toISOString()
+      : null,
+    last_error: circuit.lastError ?? null,
+    updated_at: new Date().toISOString(),
+  });
+  if (error) console.error("provider_health write error:", error.message);
+}
+
+async function recordSuccess(service: string) {
+  const circuit = circuitFor(service);
+  const changed = circuit.state !== "closed";
+  circuit.state = "closed";
+  circuit.failures = 0;
+  if (changed) await persistCircuit(service, circuit);
+}
+
+async function recordFailure(service: string, reason: string) {
+  const circuit = circuitFor(service);
+  circuit.failures += 1;
+  circuit.lastError = reason;
+  // Probeanfrage gescheitert oder Schwelle erreicht -> Provider aussetzen
+  if (circuit.state === "half-open" || circuit.failures >= failureThreshold()) {
+    circuit.state = "open";
+    circuit.openedUntil = Date.now() + cooldownMs();
+    console.warn(`Circuit for ${service} opened: ${reason}`);
+    await persistCircuit(service, circuit);
+  }
+}
+
+/** Aktueller Zustand dieser Instanz, z.B. für Debug-Ausgaben */
+export function circuitSnapshot(service: string) {
+  const { state, failures, openedUntil, lastError } = circuitFor(service);
+  return { state, failures, openedUntil, lastError };
+}
+
+const isRetryable = (status: number) => status === 429 || status >= 500;
+
+function retryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = Number(retryAfter);
+  if (retryAfter && Number.isFinite(seconds)) return seconds * 1000;
+  // Exponentiell mit "full jitter", damit parallele Instanzen sich nicht synchronisieren
+  return Math.random() * Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** attempt);
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * fetch für Routing-/Geocoding-Dienste. Liefert die letzte Antwort (auch
+ * 4xx/5xx – die Provider werten sie wie bisher aus). Wirft ProviderError bei
+ * offenem Circuit oder laufender Probeanfrage (503) sowie bei Timeout (504)
+ * oder Netzwerkfehler (502) nach allen Versuchen.
+ */
+export async function upstreamFetch(
+  service: string,
+  url: string,
+  init: RequestInit = {},
+  policy: FetchPolicy = {},
+): Promise<Response> {
+  const circuit = circuitFor(service);
+  // Abkühlzeit vorbei: genau eine Probeanfrage durchlassen
+  if (circuit.state === "open" && Date.now() >= circuit.openedUntil) {
+    circuit.state = "half-open";
+  }
+  if (
+    circuit.state === "open" ||
+    (circuit.state === "half-open" && circuit.probing)
+  ) {
+    throw new ProviderError(
+      `${service} ist vorübergehend deaktiviert (zu viele Fehler)`,
+      503,
+      {
+        circuit: circuit.state,
+        retryAfterSeconds: Math.max(
+          1,
+          Math.ceil((circuit.openedUntil - Date.now()) / 1000),
+        ),
+        lastError: circuit.lastError,
+      },
+    );
+  }
+
+  const probe = circuit.state === "half-open";
+  if (!probe) {
+    return attemptFetch(service, url, init, policy);
+  }
+  circuit.probing = true;
+  try {
+    return await attemptFetch(service, url, init, { ...policy, retries: 0 });
+  } finally {
+    circuit.probing = false;
+  }
+}
+
+async function attemptFetch(
+  service: string,
+  url: string,
+  init: RequestInit,
+  policy: FetchPolicy,
+): Promise<Response> {
+  const timeoutMs = policy.timeoutMs ?? defaultTimeoutMs();
+  const retries = policy.retries ?? defaultRetries();
+
+  let lastError = "";
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    let res: Response;
+    try {
+      res = await fetch(url, {
+        ...init,
+        signal: AbortSignal.timeout(timeoutMs),
+      });
+    } catch (err) {
+      const timedOut = err instanceof DOMException &&
+        err.name === "TimeoutError";
+      lastError = timedOut
+        ? `Timeout nach ${timeoutMs} ms`
+        : err instanceof Error
+        ? err.message
+        : String(err);
+      if (attempt < retries) {
+        await sleep(retryDelay(attempt, null));
+        continue;
+      }
+      await recordFailure(service, lastError);
+      throw new ProviderError(
+        `${service} nicht erreichbar: ${lastError}`,
+        timedOut ? 504 : 502,
+        { attempts: attempt + 1 },
+      );
+    }
+
+    if (!isRetryable(res.status)) {
+      await recordSuccess(service);
+      return res;
+    }
+
+    lastError = `HTTP ${res.status}`;
+    const delay = retryDelay(attempt, res.headers.get("Retry-After"));
+    // Lange Retry-After-Zeiten nicht absitzen, sondern den Fehler melden
+    if (attempt >= retries || delay > RETRY_MAX_MS) {
+      await recordFailure(service, lastError);
+      return res;
+    }
+    await res.body?.cancel();
+    await sleep(delay);
+  }
+
+  // Nicht erreichbar: die Schleife endet immer mit return oder throw
+  throw new ProviderError(`${service}: ${lastError}`, 502);
+}
@@ -0,0 +1,65 @@
+import { withGeocodeCache } from "../geocodeCache.ts";
+import { createGraphHopperProvider } from "./graphhopper.ts";
+import { createOrsProvider } from "./ors.ts";
+import { createOsrmProvider } from "./osrm.ts";
+import { createStubProvider } from "./stub.ts";
+import type { RequestProviderName, RoutingProvider } from "./types.ts";
+
+export * from "./modes.ts";
+export * from "./types.ts";
+
+const PROVIDER_NAMES: RequestProviderName[] = ["ors", "osrm", "graphhopper"];
+
+export function isProviderName(value: unknown): value is RequestProviderName {
+  return PROVIDER_NAMES.includes(value as RequestProviderName);
+}
+
+/**
+ * Provider auswählen: explizit pro Request, sonst ROUTING_PROVIDER aus der
+ * Umgebung, sonst OpenRouteService. Der Stub-Provider (feste Testdaten) ist
+ * nur über ROUTING_PROVIDER=stub wählbar, nie per Request. Geocoding läuft bei
+ * echten Providern über den persistenten Cache (geocode_cache).
+ */
+export function getRoutingProvider(requested?: string): RoutingProvider {
+  const provider = createProvider(requested);
+  if (provider.name === "stub") return provider;
+  return {
+    ...provider,
+    geocode: withGeocodeCache(
+      (address, options) => provider.geocode(address, options),
+      provider.name,
+    ),
+  };
+}
+
+function createProvider(requested?: string): RoutingProvider {
+  const configured = Deno.env.get("ROUTING_PROVIDER");
+  if (requested === undefined && configured === "stub") {
+    return createStubProvider();
+  }
+
+  const name = requested ?? configured ?? "ors";
+  if (!isProviderName(name)) {
+    throw new Error(`Unbekannter Routing-Provider: ${name}`);
+  }
+
+  switch (name) {
+    case "ors": {
+      const apiKey = Deno.env.get("OPENROUTE_SERVICE_API_KEY");
+      if (!apiKey) throw new Error("OpenRouteService API key not configured");
+      return createOrsProvider(apiKey);
+    }
+    case "osrm":
+      return createOsrmProvider(
+        Deno.env.get("OSRM_BASE_URL") ?? "https://router.project-osrm.org",
+      );
+    case "graphhopper": {
+      const apiKey = Deno.env.get("GRAPHHOPPER_API_KEY");
+      if (!apiKey) throw new Error("GraphHopper API key not configured");
+      return createGraphHopperProvider(
+        apiKey,
+        Deno.env.get("GRAPHHOPPER_BASE_URL") ?? "https://graphhopper.com/api/1",
+      );
+    }
+  }
+}
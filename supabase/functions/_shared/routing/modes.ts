@@ -0,0 +1,29 @@
+import type { TravelMode } from "./types.ts";
+
+export const TRAVEL_MODES: TravelMode[] = [
+  "car",
+  "truck",
+  "bike",
+  "ebike",
+  "roadbike",
+  "walking",
+];
+
+export function isTravelMode(value: unknown): value is TravelMode {
+  return TRAVEL_MODES.includes(value as TravelMode);
+}
+
+export const CYCLING_MODES: TravelMode[] = ["bike", "ebike", "roadbike"];
+
+// Liegt im Vertrag, damit der Client dieselben Schalter anbietet
+export { AVOID_FEATURES_BY_MODE } from "../contract.ts";
+
+// Grobe Durchschnittsgeschwindigkeiten, wenn kein Provider eine Dauer liefert
+export const AVERAGE_SPEED_KMH: Record<TravelMode, number> = {
+  car: 60,
+  truck: 50,
+  bike: 15,
+  ebike: 20,
+  roadbike: 22,
+  walking: 4.5,
+};
@@ -0,0 +1,126 @@
+import type { LatLngPoint } from "../geo.ts";
+import { upstreamFetch } from "./http.ts";
+import {
+  type GeocodeCandidate,
+  type GeocodeOptions,
+  ProviderError,
+  upstreamErrorMessage,
+} from "./types.ts";
+
+const NOMINATIM_URL = "https://nominatim.openstreetmap.org";
+
+export const NOMINATIM_USER_AGENT =
+  "route-wizard-hub/1.0 (contact: your-email@example.com)";
+
+// Nominatim kennt keinen Punkt-Bias, nur eine bevorzugte (nicht bindende) Viewbox
+const BIAS_VIEWBOX_DEG = 0.5;
+
+interface NominatimPlace {
+  lat: string;
+  lon: string;
+  display_name?: string;
+  address?: { country_code?: string };
+}
+
+export async function nominatimGeocode(
+  address: string,
+  { countryCodes, bias, limit = 5 }: GeocodeOptions = {},
+): Promise<GeocodeCandidate[]> {
+  const params = new URLSearchParams({
+    format: "jsonv2",
+    q: address,
+    limit: String(limit),
+    addressdetails: "1",
+    "accept-language": "de",
+  });
+  if (countryCodes?.length) params.set("countrycodes", countryCodes.join(","));
+  if (bias) {
+    const d = BIAS_VIEWBOX_DEG;
+    params.set(
+      "viewbox",
+      [bias.lng - d, bias.lat + d, bias.lng + d, bias.lat - d].join(","),
+    );
+  }
+
+  // Upstream-Fehler nicht als "nichts gefunden" melden, sonst würde der
+  // Geocode-Cache gültige Adressen als fehlend speichern
+  const response = await upstreamFetch(
+    "nominatim",
+    `${NOMINATIM_URL}/search?${params}`,
+    {
+      headers: { "User-Agent": NOMINATIM_USER_AGENT },
+    },
+  );
+  if (!response.ok) {
+    const txt = await response.text();
+    console.error("Geocoding error:", txt);
+    throw new ProviderError(
+      `Nominatim HTTP ${response.status}: ${upstreamErrorMessage(txt)}`,
+      response.status,
+      { endpoint: "/search" },
+    );
+  }
+
+  const data: NominatimPlace[] = await response.json();
+  if (!Array.isArray(data)) return [];
+  return data
+    .map((place) => ({
+      lat: parseFloat(place.lat),
+      lng: parseFloat(place.lon),
+      label: place.display_name ?? address,
+      countryCode: place.address?.country_code,
+    }))
+    .filter((c) => Number.isFinite(c.lat) && Number.isFinite(c.lng));
+}
+
+interface NominatimAddress {
+  road?: string;
+  pedestrian?: string;
+  house_number?: string;
+  postcode?: string;
+  city?: string;
+  town?: string;
+  village?: string;
+  hamlet?: string;
+  country?: string;
+}
+
+/** Kurze Anschrift "Straße Nr, PLZ Ort" statt der langen display_name. */
+function formatAddress(
+  address: NominatimAddress | undefined,
+  displayName: string | undefined,
+): string | null {
+  const street = [address?.road ?? address?.pedestrian, address?.house_number]
+    .filter(Boolean).join(" ");
+  const place = [
+    address?.postcode,
+    address?.city ?? address?.town ?? address?.village ?? address?.hamlet,
+  ].filter(Boolean).join(" ");
+  const short = [street, place].filter(Boolean).join(", ");
+  return short || displayName || null;
+}
+
+export async function nominatimReverse(
+  point: LatLngPoint,
+): Promise<string | null> {
+  // Wie beim Geocoding: Upstream-Fehler sind kein "keine Adresse"
+  const response = await upstreamFetch(
+    "nominatim",
+    `${NOMINATIM_URL}/reverse?format=jsonv2&lat=${point.lat}&lon=${point.lng}&zoom=18&addressdetails=1&accept-language=de`,
+    { headers: { "User-Agent": NOMINATIM_USER_AGENT } },
+  );
+  if (!response.ok) {
+    const txt = await response.text();
+    console.error("Reverse geocoding error:", txt);
+    throw new ProviderError(
+      `Nominatim HTTP ${response.status}: ${upstreamErrorMessage(txt)}`,
+      response.status,
+      { endpoint: "/reverse" },
+    );
+  }
+
+  // Kein Treffer (z.B. auf dem Meer) kommt als 200 mit "error"
+  const data = await response.json();
+  if (!data || data.error) return null;
+  return formatAddress(data.address, data.display_name);
+}
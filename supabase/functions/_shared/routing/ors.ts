@@ -0,0 +1,324 @@
+import { upstreamFetch } from "./http.ts";
+import { nominatimGeocode } from "./nominatim.ts";
+import {
+  type AvoidFeature,
+  type DirectionsRequest,
+  indexMatrixLocations,
+  type IsochronePolygon,
+  type IsochroneRequest,
+  type Maneuver,
+  type MatrixRequest,
+  type MatrixResult,
+  ProviderError,
+  type ProviderRoute,
+  type RoutingProvider,
+  toMatrix,
+  type TravelMode,
+  unsupportedAvoidWarnings,
+  upstreamErrorMessage,
+} from "./types.ts";
+
+const ORS_URL = "https://api.openrouteservice.org";
+
+const PROFILES: Record<TravelMode, string> = {
+  car: "driving-car",
+  truck: "driving-hgv",
+  bike: "cycling-regular",
+  ebike: "cycling-electric",
+  roadbike: "cycling-road",
+  walking: "foot-walking",
+};
+
+// Werte für options.avoid_features; Grenzen laufen über avoid_borders,
+// unbefestigte Wege kann ORS nicht meiden
+const AVOID_FEATURES = new Set<AvoidFeature>([
+  "tollways",
+  "highways",
+  "ferries",
+  "fords",
+  "steps",
+]);
+
+// ORS-Fehlercodes (HTTP 404): 2009 = keine Route, 2010 = Punkt nicht routbar
+const NO_ROUTE_ERROR_CODES = new Set([2009, 2010]);
+
+function isNoRouteError(status: number, txt: string): boolean {
+  if (status !== 404) return false;
+  try {
+    return NO_ROUTE_ERROR_CODES.has(JSON.parse(txt)?.error?.code);
+  } catch {
+    return false;
+  }
+}
+
+// Ausschnitt der ORS-GeoJSON-Antwort, soweit wir ihn lesen
+interface OrsStep {
+  instruction?: string;
+  name?: string;
+  distance?: number;
+  duration?: number;
+  type?: number;
+  exit_number?: number;
+  way_points?: [number, number];
+}
+
+interface OrsSegment {
+  distance?: number;
+  duration?: number;
+  steps?: OrsStep[];
+}
+
+interface OrsFeature {
+  geometry?: { type?: string; coordinates?: [number, number][] };
+  properties?: {
+    summary?: { distance?: number; duration?: number };
+    segments?: OrsSegment[];
+    warnings?: Array<{ code?: number; message?: string }>;
+  };
+}
+
+// ORS-Instruktionstypen (siehe ORS-Doku "Instruction Types")
+const MANEUVERS: Record<number, Maneuver> = {
+  0: "left",
+  1: "right",
+  2: "sharp-left",
+  3: "sharp-right",
+  4: "slight-left",
+  5: "slight-right",
+  6: "straight",
+  7: "roundabout",
+  8: "exit-roundabout",
+  9: "uturn",
+  10: "arrive",
+  11: "depart",
+  12: "keep-left",
+  13: "keep-right",
+};
+
+// Geometrie-Indizes eines Segments: von erstem bis letztem Step
+function segmentWayPoints(segment: OrsSegment): [number, number] | undefined {
+  const steps = segment.steps ?? [];
+  const first = steps[0]?.way_points;
+  const last = steps[steps.length - 1]?.way_points;
+  return first && last ? [first[0], last[1]] : undefined;
+}
+
+export function createOrsProvider(apiKey: string): RoutingProvider {
+  return {
+    name: "ors",
+
+    async directions(req: DirectionsRequest): Promise<ProviderRoute[]> {
+      const profile = PROFILES[req.mode];
+      const endpoint = `/v2/directions/${profile}/geojson`;
+
+      const options: Record<string, unknown> = {};
+      const avoidFeatures = req.avoidFeatures.filter((f) =>
+        AVOID_FEATURES.has(f)
+      );
+      if (avoidFeatures.length) {
+        options.avoid_features = avoidFeatures;
+      }
+      if (req.avoidFeatures.includes("borders")) {
+        options.avoid_borders = "all";
+      }
+      const unsupported = req.avoidFeatures.filter((f) =>
+        !AVOID_FEATURES.has(f) && f !== "borders"
+      );
+      if (req.avoidAreas?.length) {
+        options.avoid_polygons = {
+          type: "MultiPolygon",
+          coordinates: req.avoidAreas.map((area) => area.coordinates),
+        };
+      }
+      if (req.cycling?.steepnessDifficulty !== undefined) {
+        options.profile_params = {
+          weightings: {
+            steepness_difficulty: req.cycling.steepnessDifficulty,
+          },
+        };
+      }
+      if (req.vehicle && profile === "driving-hgv") {
+        const v = req.vehicle;
+        options.vehicle_type = "hgv";
+        options.profile_params = {
+          restrictions: {
+            length: v.lengthM,
+            width: v.widthM,
+            height: v.heightM,
+            axleload: v.axleLoadT,
+            weight: v.weightT,
+            // ORS kennt nur "Gefahrgut ja/nein", keine Klassen
+            hazmat: v.hazmatClass ? true : undefined,
+          },
+        };
+      }
+
+      // ORS erwartet [lon,lat]
+      const coordinates = req.coordinates.map((p) => [p.lng, p.lat]);
+      const res = await upstreamFetch("ors", `${ORS_URL}${endpoint}`, {
+        method: "POST",
+        headers: {
+          Authorization: apiKey,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          coordinates,
+          preference: req.preference,
+          options: Object.keys(options).length ? options : undefined,
+          alternative_routes: req.alternatives && req.alternatives > 1
+            ? {
+              target_count: req.alternatives,
+              share_factor: 0.6,
+              weight_factor: 1.4,
+            }
+            : undefined,
+          instructions: true,
+          language: "de",
+          units: "km",
+        }),
+      });
+
+      if (!res.ok) {
+        const txt = await res.text();
+        // Punkte nicht verbindbar -> keine Route statt Upstream-Fehler
+        if (isNoRouteError(res.status, txt)) return [];
+        console.error("OpenRouteService error:", txt);
+        throw new ProviderError(
+          `ORS HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile, sentCoordinates: coordinates },
+        );
+      }
+
+      const data = await res.json();
+      const features: OrsFeature[] = Array.isArray(data?.features)
+        ? data.features
+        : [];
+
+      return features
+        .filter((f) =>
+          f?.geometry?.type === "LineString" &&
+          Array.isArray(f.geometry.coordinates)
+        )
+        .map((f): ProviderRoute => {
+          const summary = f.properties?.summary ?? {};
+          const segments = f.properties?.segments ?? [];
+          return {
+            geometry: {
+              type: "LineString",
+              coordinates: f.geometry?.coordinates ?? [],
+            },
+            // units=km: Distanzen kommen in km
+            distanceMeters: Number.isFinite(summary.distance)
+              ? Number(summary.distance) * 1000
+              : null,
+            durationSeconds: Number.isFinite(summary.duration)
+              ? Number(summary.duration)
+              : null,
+            segments: segments.map((segment) => ({
+              wayPoints: segmentWayPoints(segment),
+              distanceMeters: (Number(segment?.distance) || 0) * 1000,
+              durationSeconds: Number(segment?.duration) || 0,
+              steps: Array.isArray(segment?.steps)
+                ? segment.steps.map((step) => ({
+                  instruction: String(step.instruction ?? ""),
+                  distanceMeters: (Number(step.distance) || 0) * 1000,
+                  durationSeconds: Number(step.duration) || 0,
+                  maneuver: MANEUVERS[step.type ?? 6] ?? "straight",
+                  // ORS setzt "-" für unbenannte Wege
+                  name: step.name && step.name !== "-" ? step.name : "",
+                  wayPoints: step.way_points,
+                  exit: step.exit_number,
+                }))
+                : [],
+            })),
+            warnings: [
+              ...unsupportedAvoidWarnings("ORS", unsupported),
+              ...(f.properties?.warnings ?? [])
+                .map((w) => String(w.message ?? ""))
+                .filter(Boolean),
+            ],
+          };
+        });
+    },
+
+    async matrix(req: MatrixRequest): Promise<MatrixResult> {
+      const profile = PROFILES[req.mode];
+      const endpoint = `/v2/matrix/${profile}`;
+      // ORS zählt jeden Eintrag in locations gegen sein Limit
+      const { locations, sources, destinations } = indexMatrixLocations(req);
+      const res = await upstreamFetch("ors", `${ORS_URL}${endpoint}`, {
+        method: "POST",
+        headers: {
+          Authorization: apiKey,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          locations: locations.map((p) => [p.lng, p.lat]),
+          sources,
+          destinations,
+          metrics: ["distance", "duration"],
+          units: "m",
+        }),
+      });
+
+      if (!res.ok) {
+        const txt = await res.text();
+        console.error("OpenRouteService matrix error:", txt);
+        throw new ProviderError(
+          `ORS HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile },
+        );
+      }
+
+      const data = await res.json();
+      return {
+        distancesMeters: toMatrix(data?.distances),
+        durationsSeconds: toMatrix(data?.durations),
+      };
+    },
+
+    async isochrones(req: IsochroneRequest): Promise<IsochronePolygon[]> {
+      const profile = PROFILES[req.mode];
+      const endpoint = `/v2/isochrones/${profile}`;
+      const res = await upstreamFetch("ors", `${ORS_URL}${endpoint}`, {
+        method: "POST",
+        headers: {
+          Authorization: apiKey,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          locations: [[req.center.lng, req.center.lat]],
+          range: req.ranges,
+          range_type: req.rangeType,
+          units: "m",
+        }),
+      });
+
+      if (!res.ok) {
+        const txt = await res.text();
+        console.error("OpenRouteService isochrones error:", txt);
+        throw new ProviderError(
+          `ORS HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile },
+        );
+      }
+
+      const data = await res.json();
+      const features: Array<{
+        properties?: { value?: number };
+        geometry?: IsochronePolygon["geometry"];
+      }> = Array.isArray(data?.features) ? data.features : [];
+      return features
+        .filter((f) => f.geometry?.type === "Polygon")
+        .map((f) => ({
+          range: Number(f.properties?.value) || 0,
+          geometry: f.geometry as IsochronePolygon["geometry"],
+        }));
+    },
+
+    geocode: nominatimGeocode,
+  };
+}
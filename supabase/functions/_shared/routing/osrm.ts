@@ -0,0 +1,269 @@
+import { upstreamFetch } from "./http.ts";
+import { nominatimGeocode } from "./nominatim.ts";
+import {
+  type DirectionsRequest,
+  indexMatrixLocations,
+  type Maneuver,
+  type MatrixRequest,
+  type MatrixResult,
+  ProviderError,
+  type ProviderRoute,
+  type RoutingProvider,
+  toMatrix,
+  type TravelMode,
+  unsupportedAvoidWarnings,
+  upstreamErrorMessage,
+} from "./types.ts";
+
+// OSRM kennt weder LKW noch E-Bike/Rennrad – die nächstliegenden Profile nutzen
+// wir nur dort, wo es fachlich passt
+const PROFILES: Partial<Record<TravelMode, string>> = {
+  car: "driving",
+  bike: "bike",
+  ebike: "bike",
+  roadbike: "bike",
+  walking: "foot",
+};
+
+function profileFor(mode: TravelMode): string {
+  const profile = PROFILES[mode];
+  if (!profile) {
+    throw new ProviderError(
+      `OSRM unterstützt das Profil "${mode}" nicht`,
+      501,
+      { mode },
+    );
+  }
+  return profile;
+}
+
+// OSRM kennt nur Profil-spezifische "classes", die per exclude ausgeschlossen werden
+const EXCLUDE_CLASSES: Record<string, string> = {
+  tollways: "toll",
+  highways: "motorway",
+  ferries: "ferry",
+};
+
+interface OsrmStep {
+  name?: string;
+  distance?: number;
+  duration?: number;
+  maneuver?: {
+    type?: string;
+    modifier?: string;
+    location?: [number, number];
+    exit?: number;
+  };
+}
+
+interface OsrmLeg {
+  distance?: number;
+  duration?: number;
+  steps?: OsrmStep[];
+}
+
+interface OsrmRoute {
+  distance?: number;
+  duration?: number;
+  geometry?: { type?: string; coordinates?: [number, number][] };
+  legs?: OsrmLeg[];
+}
+
+const MODIFIER_MANEUVERS: Record<string, Maneuver> = {
+  left: "left",
+  "slight left": "slight-left",
+  "sharp left": "sharp-left",
+  right: "right",
+  "slight right": "slight-right",
+  "sharp right": "sharp-right",
+  straight: "straight",
+  uturn: "uturn",
+};
+
+const MANEUVER_TEXT: Record<Maneuver, string> = {
+  depart: "Losfahren",
+  arrive: "Ziel erreicht",
+  waypoint: "Zwischenziel erreicht",
+  straight: "Geradeaus",
+  "slight-left": "Leicht links",
+  left: "Links",
+  "sharp-left": "Scharf links",
+  "slight-right": "Leicht rechts",
+  right: "Rechts",
+  "sharp-right": "Scharf rechts",
+  "keep-left": "Links halten",
+  "keep-right": "Rechts halten",
+  uturn: "Wenden",
+  roundabout: "In den Kreisverkehr",
+  "exit-roundabout": "Kreisverkehr verlassen",
+};
+
+function maneuverFor(step: OsrmStep, isLastLeg: boolean): Maneuver {
+  const type = step.maneuver?.type ?? "";
+  const modifier = step.maneuver?.modifier ?? "";
+  switch (type) {
+    case "depart":
+      return "depart";
+    case "arrive":
+      return isLastLeg ? "arrive" : "waypoint";
+    case "roundabout":
+    case "rotary":
+      return "roundabout";
+    case "exit roundabout":
+    case "exit rotary":
+      return "exit-roundabout";
+    case "fork":
+    case "on ramp":
+    case "off ramp":
+      if (modifier.includes("left")) return "keep-left";
+      if (modifier.includes("right")) return "keep-right";
+      return "straight";
+    default:
+      return MODIFIER_MANEUVERS[modifier] ?? "straight";
+  }
+}
+
+// OSRM liefert keine Instruktions-Texte, nur Manöver – wir bauen einfache Sätze
+function describeStep(maneuver: Maneuver, name: string): string {
+  const text = MANEUVER_TEXT[maneuver];
+  if (maneuver === "arrive" || maneuver === "waypoint") return text;
+  return name ? `${text} auf ${name}` : text;
+}
+
+export function createOsrmProvider(baseUrl: string): RoutingProvider {
+  return {
+    name: "osrm",
+
+    async directions(req: DirectionsRequest): Promise<ProviderRoute[]> {
+      const profile = profileFor(req.mode);
+      const coords = req.coordinates.map((p) => `${p.lng},${p.lat}`).join(";");
+      const params = new URLSearchParams({
+        overview: "full",
+        geometries: "geojson",
+        steps: "true",
+      });
+      if (req.alternatives && req.alternatives > 1) {
+        params.set("alternatives", String(req.alternatives - 1));
+      }
+      // Ausschließbare Klassen gibt es nur im Auto-Profil
+      const excludable = req.avoidFeatures.filter((f) =>
+        profile === "driving" && EXCLUDE_CLASSES[f]
+      );
+      if (excludable.length) {
+        params.set(
+          "exclude",
+          excludable.map((f) => EXCLUDE_CLASSES[f]).join(","),
+        );
+      }
+      const unsupported = req.avoidFeatures.filter((f) =>
+        !excludable.includes(f)
+      );
+
+      const endpoint = `/route/v1/${profile}`;
+      const res = await upstreamFetch(
+        "osrm",
+        `${baseUrl}${endpoint}/${coords}?${params}`,
+      );
+      const txt = await res.text();
+
+      if (!res.ok) {
+        // "NoRoute" kommt bei OSRM als HTTP 400 – das ist kein Upstream-Fehler
+        if (txt.includes('"NoRoute"')) return [];
+        console.error("OSRM error:", txt);
+        throw new ProviderError(
+          `OSRM HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile, sentCoordinates: coords },
+        );
+      }
+
+      const data = JSON.parse(txt);
+      const routes: OsrmRoute[] = Array.isArray(data?.routes)
+        ? data.routes
+        : [];
+      // OSRM kennt keine Sperrflächen; lieber melden als still ignorieren
+      const warnings = [
+        ...unsupportedAvoidWarnings("OSRM", unsupported),
+        ...(req.avoidAreas?.length
+          ? [
+            "OSRM berücksichtigt keine Sperrflächen – die Route kann sie durchqueren.",
+          ]
+          : []),
+      ];
+
+      return routes
+        .filter((r) =>
+          r.geometry?.type === "LineString" &&
+          Array.isArray(r.geometry.coordinates)
+        )
+        .map((r): ProviderRoute => ({
+          geometry: {
+            type: "LineString",
+            coordinates: r.geometry?.coordinates ?? [],
+          },
+          distanceMeters: Number.isFinite(r.distance) ? Number(r.distance) : null,
+          durationSeconds: Number.isFinite(r.duration)
+            ? Number(r.duration)
+            : null,
+          segments: (r.legs ?? []).map((leg, legIndex, legs) => ({
+            distanceMeters: Number(leg.distance) || 0,
+            durationSeconds: Number(leg.duration) || 0,
+            steps: (leg.steps ?? []).map((step) => {
+              const maneuver = maneuverFor(step, legIndex === legs.length - 1);
+              const name = step.name ?? "";
+              return {
+                instruction: describeStep(maneuver, name),
+                distanceMeters: Number(step.distance) || 0,
+                durationSeconds: Number(step.duration) || 0,
+                maneuver,
+                name,
+                location: step.maneuver?.location,
+                exit: step.maneuver?.exit,
+              };
+            }),
+          })),
+          warnings,
+        }));
+    },
+
+    async matrix(req: MatrixRequest): Promise<MatrixResult> {
+      const profile = profileFor(req.mode);
+      const { locations, sources, destinations } = indexMatrixLocations(req);
+      const coords = locations.map((p) => `${p.lng},${p.lat}`).join(";");
+      const params = new URLSearchParams({
+        sources: sources.join(";"),
+        destinations: destinations.join(";"),
+        annotations: "distance,duration",
+      });
+
+      const endpoint = `/table/v1/${profile}`;
+      const res = await upstreamFetch(
+        "osrm",
+        `${baseUrl}${endpoint}/${coords}?${params}`,
+      );
+      if (!res.ok) {
+        const txt = await res.text();
+        console.error("OSRM table error:", txt);
+        throw new ProviderError(
+          `OSRM HTTP ${res.status}: ${upstreamErrorMessage(txt)}`,
+          res.status,
+          { endpoint, profile },
+        );
+      }
+
+      const data = await res.json();
+      return {
+        distancesMeters: toMatrix(data?.distances),
+        durationsSeconds: toMatrix(data?.durations),
+      };
+    },
+
+    isochrones(): Promise<never> {
+      return Promise.reject(
+        new ProviderError("OSRM unterstützt keine Isochronen", 501),
+      );
+    },
+
+    geocode: nominatimGeocode,
+  };
+}
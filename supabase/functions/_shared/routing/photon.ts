@@ -0,0 +1,86 @@
+// Photon (Komoot) für Adressvorschläge beim Tippen. Nominatim erlaubt laut
+// Usage Policy kein Autocomplete, Photon ist genau dafür gebaut.
+import { upstreamFetch } from "./http.ts";
+
+const DEFAULT_PHOTON_URL = "https://photon.komoot.io";
+
+export interface AddressSuggestion {
+  label: string;
+  lat: number;
+  lng: number;
+  /** OSM-Typ, z.B. "house", "street", "city" */
+  type?: string;
+}
+
+export interface SuggestOptions {
+  limit: number;
+  /** Ortsbezug, z.B. Mitte des Kartenausschnitts */
+  bias?: { lat: number; lng: number; zoom?: number };
+  /** ISO-Codes, klein geschrieben; leer = weltweit */
+  countryCodes?: string[];
+}
+
+interface PhotonFeature {
+  geometry?: { coordinates?: [number, number] };
+  properties?: {
+    name?: string;
+    street?: string;
+    housenumber?: string;
+    postcode?: string;
+    city?: string;
+    state?: string;
+    country?: string;
+    countrycode?: string;
+    type?: string;
+  };
+}
+
+function labelFor(p: NonNullable<PhotonFeature["properties"]>): string {
+  const street = [p.street, p.housenumber].filter(Boolean).join(" ");
+  const place = [p.postcode, p.city].filter(Boolean).join(" ");
+  const parts = [p.name, street, place, p.country].filter(Boolean);
+  // Name und Straße sind bei Adresstreffern oft identisch
+  return [...new Set(parts)].join(", ");
+}
+
+export async function photonSuggest(
+  query: string,
+  { limit, bias, countryCodes }: SuggestOptions,
+): Promise<AddressSuggestion[]> {
+  const baseUrl = Deno.env.get("PHOTON_URL") ?? DEFAULT_PHOTON_URL;
+  const params = new URLSearchParams({
+    q: query,
+    // Photon kann nicht nach Ländern filtern -> mehr holen, dann filtern
+    limit: String(countryCodes?.length ? limit * 3 : limit),
+    lang: "de",
+  });
+  if (bias) {
+    params.set("lat", String(bias.lat));
+    params.set("lon", String(bias.lng));
+    if (bias.zoom != null) params.set("zoom", String(Math.round(bias.zoom)));
+  }
+
+  // Beim Tippen lieber schnell nichts als spät etwas
+  const res = await upstreamFetch("photon", `${baseUrl}/api/?${params}`, {}, {
+    timeoutMs: 3000,
+    retries: 0,
+  });
+  if (!res.ok) {
+    console.error("Photon error:", res.status, await res.text());
+    return [];
+  }
+
+  const data: { features?: PhotonFeature[] } = await res.json();
+  return (data.features ?? [])
+    .flatMap((f): AddressSuggestion[] => {
+      const coords = f.geometry?.coordinates;
+      if (!coords || !coords.every(Number.isFinite) || !f.properties) return [];
+      const country = f.properties.countrycode?.toLowerCase();
+      if (countryCodes?.length && (!country || !countryCodes.includes(country))) {
+        return [];
+      }
+      const [lng, lat] = coords;
+      return [{ label: labelFor(f.properties), lat, lng, type: f.properties.type }];
+    })
+    .slice(0, limit);
+}
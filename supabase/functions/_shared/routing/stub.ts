@@ -0,0 +1,129 @@
+import { haversineKm, type LatLngPoint } from "../geo.ts";
+import { AVERAGE_SPEED_KMH } from "./modes.ts";
+import type {
+  DirectionsRequest,
+  GeocodeCandidate,
+  IsochronePolygon,
+  IsochroneRequest,
+  MatrixRequest,
+  MatrixResult,
+  ProviderRoute,
+  RoutingProvider,
+} from "./types.ts";
+
+// Feste Koordinaten, damit die Function ohne Netzwerk (z.B. in Tests) läuft
+const KNOWN_PLACES: Record<string, LatLngPoint> = {
+  berlin: { lat: 52.520008, lng: 13.404954 },
+  paris: { lat: 48.856614, lng: 2.3522219 },
+  münchen: { lat: 48.1351, lng: 11.582 },
+  hamburg: { lat: 53.5511, lng: 9.9937 },
+  köln: { lat: 50.9375, lng: 6.9603 },
+  frankfurt: { lat: 50.1109, lng: 8.6821 },
+  stuttgart: { lat: 48.7758, lng: 9.1829 },
+  düsseldorf: { lat: 51.2277, lng: 6.7735 },
+  hannover: { lat: 52.3676, lng: 9.732 },
+  leipzig: { lat: 51.3397, lng: 12.3731 },
+};
+
+function circlePolygon(
+  center: LatLngPoint,
+  radiusKm: number,
+): IsochronePolygon["geometry"] {
+  const ring: [number, number][] = [];
+  const dLat = radiusKm / 111.32;
+  const dLng = radiusKm / (111.32 * Math.cos((center.lat * Math.PI) / 180));
+  for (let i = 0; i <= 36; i++) {
+    const angle = (i / 36) * 2 * Math.PI;
+    ring.push([
+      center.lng + dLng * Math.cos(angle),
+      center.lat + dLat * Math.sin(angle),
+    ]);
+  }
+  return { type: "Polygon", coordinates: [ring] };
+}
+
+export function createStubProvider(): RoutingProvider {
+  return {
+    name: "stub",
+
+    directions(req: DirectionsRequest): Promise<ProviderRoute[]> {
+      const speed = AVERAGE_SPEED_KMH[req.mode];
+      const segments = req.coordinates.slice(1).map((to, i) => {
+        const from = req.coordinates[i];
+        const distanceMeters =
+          haversineKm(from.lat, from.lng, to.lat, to.lng) * 1000;
+        const durationSeconds = (distanceMeters / 1000 / speed) * 3600;
+        const isLast = i === req.coordinates.length - 2;
+        return {
+          distanceMeters,
+          durationSeconds,
+          wayPoints: [i, i + 1] as [number, number],
+          steps: [
+            {
+              instruction: isLast
+                ? "Geradeaus zum Ziel"
+                : `Geradeaus zu Zwischenziel ${i + 1}`,
+              distanceMeters,
+              durationSeconds,
+              maneuver: "straight" as const,
+              name: "",
+              wayPoints: [i, i + 1] as [number, number],
+            },
+          ],
+        };
+      });
+
+      return Promise.resolve([{
+        geometry: {
+          type: "LineString",
+          coordinates: req.coordinates.map((p) => [p.lng, p.lat]),
+        },
+        distanceMeters: segments.reduce((s, seg) => s + seg.distanceMeters, 0),
+        durationSeconds: segments.reduce((s, seg) => s + seg.durationSeconds, 0),
+        segments,
+        warnings: [
+          ...(req.vehicle
+            ? ["Stub-Provider ignoriert Fahrzeugabmessungen"]
+            : []),
+          ...(req.avoidAreas?.length
+            ? ["Stub-Provider ignoriert Sperrflächen"]
+            : []),
+        ],
+      }]);
+    },
+
+    matrix(req: MatrixRequest): Promise<MatrixResult> {
+      const speed = AVERAGE_SPEED_KMH[req.mode];
+      const distancesMeters = req.sources.map((from) =>
+        req.destinations.map((to) =>
+          haversineKm(from.lat, from.lng, to.lat, to.lng) * 1000
+        )
+      );
+      return Promise.resolve({
+        distancesMeters,
+        durationsSeconds: distancesMeters.map((row) =>
+          row.map((m) => (m / 1000 / speed) * 3600)
+        ),
+      });
+    },
+
+    // Kreise um den Mittelpunkt (Radius aus Durchschnittsgeschwindigkeit)
+    isochrones(req: IsochroneRequest): Promise<IsochronePolygon[]> {
+      const speed = AVERAGE_SPEED_KMH[req.mode];
+      return Promise.resolve(req.ranges.map((range) => {
+        const radiusKm = req.rangeType === "time"
+          ? (range / 3600) * speed
+          : range / 1000;
+        return { range, geometry: circlePolygon(req.center, radiusKm) };
+      }));
+    },
+
+    geocode(address: string): Promise<GeocodeCandidate[]> {
+      const lower = address.toLowerCase();
+      const hits = Object.entries(KNOWN_PLACES)
+        .filter(([key]) => lower.includes(key))
+        .map(([key, point]) => ({ ...point, label: key }));
+      return Promise.resolve(hits);
+    },
+  };
+}
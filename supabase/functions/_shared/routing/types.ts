@@ -0,0 +1,224 @@
+import type { LatLngPoint } from "../geo.ts";
+import type {
+  AvoidArea,
+  AvoidFeature,
+  Maneuver,
+  RequestProviderName,
+  TravelMode,
+} from "../contract.ts";
+
+export type {
+  AvoidArea,
+  AvoidFeature,
+  Maneuver,
+  RequestProviderName,
+  TravelMode,
+};
+
+export interface CyclingOptions {
+  /** 0 = Anfänger (flach) … 3 = sehr sportlich (Steigungen egal) */
+  steepnessDifficulty?: 0 | 1 | 2 | 3;
+}
+
+// Fahrzeugabmessungen für LKW-Routing (Meter bzw. Tonnen)
+export interface VehicleRestrictions {
+  lengthM?: number;
+  widthM?: number;
+  heightM?: number;
+  axleLoadT?: number;
+  weightT?: number;
+  /** UN-Gefahrgutklasse (1–9); gesetzt = Gefahrgut an Bord */
+  hazmatClass?: string;
+}
+
+export interface LineString {
+  type: "LineString";
+  coordinates: [number, number][]; // [lon,lat]
+}
+
+export interface DirectionsRequest {
+  coordinates: LatLngPoint[];
+  mode: TravelMode;
+  preference: "fastest" | "shortest";
+  avoidFeatures: AvoidFeature[];
+  /** Geschlossene GeoJSON-Polygone [lon,lat] */
+  avoidAreas?: AvoidArea[];
+  /** Max. Anzahl Routen inkl. Hauptroute; nicht gesetzt = nur eine Route. */
+  alternatives?: number;
+  cycling?: CyclingOptions;
+  vehicle?: VehicleRestrictions;
+}
+
+export interface ProviderStep {
+  instruction: string;
+  distanceMeters: number;
+  durationSeconds: number;
+  maneuver: Maneuver;
+  /** Straßenname, leer wenn unbekannt */
+  name: string;
+  /** Start-/End-Index des Steps in geometry.coordinates, falls bekannt */
+  wayPoints?: [number, number];
+  /** Ort des Manövers [lon,lat], falls der Provider ihn direkt liefert */
+  location?: [number, number];
+  /** Ausfahrt im Kreisverkehr */
+  exit?: number;
+}
+
+// Ein Segment entspricht dem Abschnitt zwischen zwei aufeinanderfolgenden Wegpunkten
+export interface ProviderSegment {
+  distanceMeters: number;
+  durationSeconds: number;
+  steps: ProviderStep[];
+  /** Start-/End-Index des Abschnitts in geometry.coordinates, falls bekannt */
+  wayPoints?: [number, number];
+}
+
+export interface ProviderRoute {
+  geometry: LineString;
+  distanceMeters: number | null;
+  durationSeconds: number | null;
+  segments: ProviderSegment[];
+  /** Hinweise, z.B. wenn Einschränkungen nicht berücksichtigt werden konnten */
+  warnings?: string[];
+}
+
+export interface MatrixRequest {
+  sources: LatLngPoint[];
+  destinations: LatLngPoint[];
+  mode: TravelMode;
+}
+
+// Zeilen = sources, Spalten = destinations; null = nicht erreichbar
+export interface MatrixResult {
+  distancesMeters: (number | null)[][];
+  durationsSeconds: (number | null)[][];
+}
+
+export interface IsochroneRequest {
+  center: LatLngPoint;
+  mode: TravelMode;
+  rangeType: "time" | "distance";
+  /** Sekunden (time) bzw. Meter (distance), aufsteigend */
+  ranges: number[];
+}
+
+export interface IsochronePolygon {
+  /** Budget in Sekunden bzw. Metern */
+  range: number;
+  geometry: { type: "Polygon"; coordinates: [number, number][][] };
+}
+
+export interface GeocodeOptions {
+  /** ISO-3166-1 alpha-2, klein geschrieben; leer = weltweit */
+  countryCodes?: string[];
+  /** Ortsbezug (z.B. Kartenmitte); beeinflusst nur die Reihenfolge */
+  bias?: LatLngPoint;
+  limit?: number;
+}
+
+export interface GeocodeCandidate extends LatLngPoint {
+  label: string;
+  countryCode?: string;
+}
+
+export interface RoutingProvider {
+  name: ProviderName;
+  /** Liefert die gefundenen Routen; leeres Array = keine Route gefunden. */
+  directions(req: DirectionsRequest): Promise<ProviderRoute[]>;
+  matrix(req: MatrixRequest): Promise<MatrixResult>;
+  isochrones(req: IsochroneRequest): Promise<IsochronePolygon[]>;
+  /**
+   * Treffer, bester zuerst; leeres Array = nichts gefunden. Upstream-Fehler
+   * werfen ProviderError.
+   */
+  geocode(
+    address: string,
+    options?: GeocodeOptions,
+  ): Promise<GeocodeCandidate[]>;
+}
+
+export type ProviderName = "ors" | "osrm" | "graphhopper" | "stub";
+
+/** Upstream hat mit einem HTTP-Fehler geantwortet. */
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly debug: Record<string, unknown> = {},
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+}
+
+const AVOID_FEATURE_LABELS: Record<AvoidFeature, string> = {
+  tollways: "Maut",
+  highways: "Autobahnen",
+  ferries: "Fähren",
+  fords: "Furten",
+  unpaved: "unbefestigte Wege",
+  steps: "Treppen",
+  borders: "Grenzübertritte",
+};
+
+/** Hinweis für Vermeidungen, die ein Provider nicht umsetzen kann */
+export function unsupportedAvoidWarnings(
+  provider: string,
+  features: AvoidFeature[],
+): string[] {
+  if (!features.length) return [];
+  const labels = features.map((f) => AVOID_FEATURE_LABELS[f]).join(", ");
+  return [
+    `${provider} kann folgende Vermeidungen nicht berücksichtigen: ${labels}.`,
+  ];
+}
+
+// Fehlertext aus einer Upstream-Antwort extrahieren (JSON oder Klartext)
+export function upstreamErrorMessage(txt: string): string {
+  try {
+    const j = JSON.parse(txt);
+    return j?.error?.message || j?.message || txt;
+  } catch {
+    return txt;
+  }
+}
+
+// Matrix-Werte normalisieren: alles Nicht-Numerische wird null
+export function toMatrix(
+  rows: unknown,
+  scale = 1,
+): (number | null)[][] {
+  if (!Array.isArray(rows)) return [];
+  return rows.map((row) =>
+    Array.isArray(row)
+      ? row.map((v) => (Number.isFinite(v) ? Number(v) * scale : null))
+      : []
+  );
+}
+
+/**
+ * Matrix-Punkte ohne Duplikate: jeder Ort einmal in locations, Starts und
+ * Ziele verweisen per Index darauf (quadratische Matrix = halbe Anfrage).
+ */
+export function indexMatrixLocations(req: MatrixRequest): {
+  locations: LatLngPoint[];
+  sources: number[];
+  destinations: number[];
+} {
+  const locations: LatLngPoint[] = [];
+  const indexByKey = new Map<string, number>();
+  const indexOf = (p: LatLngPoint) => {
+    const key = `${p.lng},${p.lat}`;
+    let index = indexByKey.get(key);
+    if (index === undefined) {
+      index = locations.push(p) - 1;
+      indexByKey.set(key, index);
+    }
+    return index;
+  };
+  return {
+    locations,
+    sources: req.sources.map(indexOf),
+    destinations: req.destinations.map(indexOf),
+  };
+}
@@ -0,0 +1,57 @@
+// Ankunfts-/Abfahrtszeiten je Routenpunkt aus Abschnittsdauern und Aufenthalten
+
+export interface StopEta {
+  arrival: string | null; // ISO; null am Startpunkt
+  departure: string | null; // ISO; null am Zielpunkt
+}
+
+interface EtaInput {
+  /** Fahrzeit je Abschnitt (n-1 Werte für n Punkte) */
+  legDurationsSeconds: number[];
+  /** Aufenthalt je Punkt (n Werte); zählt nur an Zwischenzielen */
+  dwellSeconds: number[];
+  departureTime?: Date;
+  /** Gewünschte Ankunft am Ziel – Abfahrt wird rückwärts gerechnet */
+  arrivalTime?: Date;
+}
+
+export function computeEtas(input: EtaInput): StopEta[] {
+  const { legDurationsSeconds: legs, dwellSeconds } = input;
+  const n = legs.length + 1;
+  const dwellAt = (i: number) =>
+    i > 0 && i < n - 1 ? Math.max(0, dwellSeconds[i] ?? 0) : 0;
+
+  let departureMs: number;
+  if (input.departureTime) {
+    departureMs = input.departureTime.getTime();
+  } else if (input.arrivalTime) {
+    const total = legs.reduce((sum, leg, i) => sum + leg + dwellAt(i + 1), 0);
+    departureMs = input.arrivalTime.getTime() - total * 1000;
+  } else {
+    return [];
+  }
+
+  const etas: StopEta[] = [];
+  let t = departureMs;
+  for (let i = 0; i < n; i++) {
+    if (i === 0) {
+      etas.push({ arrival: null, departure: new Date(t).toISOString() });
+      continue;
+    }
+    t += legs[i - 1] * 1000;
+    const arrival = new Date(t).toISOString();
+    if (i === n - 1) {
+      etas.push({ arrival, departure: null });
+    } else {
+      t += dwellAt(i) * 1000;
+      etas.push({ arrival, departure: new Date(t).toISOString() });
+    }
+  }
+  return etas;
+}
+
+export function parseTime(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !value) return undefined;
+  const d = new Date(value);
+  return Number.isNaN(d.getTime()) ? undefined : d;
+}
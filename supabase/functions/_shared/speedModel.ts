@@ -0,0 +1,96 @@
+import type { Confidence, TravelMode } from "./contract.ts";
+
+// Schätzmodell für Dauer (und bei Luftlinie auch Strecke), wenn kein
+// Routing-Dienst Werte liefert. Überschreibbar per FALLBACK_SPEED_MODEL, z.B.
+// {"car":{"ruralKmh":90},"walking":{"detourFactor":1.3}}
+
+export interface SpeedProfile {
+  /** Durchschnitt innerorts (Ampeln, Kreuzungen) */
+  urbanKmh: number;
+  /** Durchschnitt außerorts */
+  ruralKmh: number;
+  /** Straßenstrecke / Luftlinie */
+  detourFactor: number;
+}
+
+const DEFAULT_MODEL: Record<TravelMode, SpeedProfile> = {
+  car: { urbanKmh: 30, ruralKmh: 80, detourFactor: 1.3 },
+  truck: { urbanKmh: 25, ruralKmh: 65, detourFactor: 1.35 },
+  bike: { urbanKmh: 14, ruralKmh: 17, detourFactor: 1.25 },
+  ebike: { urbanKmh: 18, ruralKmh: 22, detourFactor: 1.25 },
+  roadbike: { urbanKmh: 20, ruralKmh: 27, detourFactor: 1.3 },
+  walking: { urbanKmh: 4.5, ruralKmh: 4.5, detourFactor: 1.2 },
+};
+
+// Am Anfang und Ende jeder Teilstrecke so viele km innerorts annehmen
+const URBAN_EDGE_KM = 3;
+
+let model: Record<TravelMode, SpeedProfile> | undefined;
+
+function speedModel(): Record<TravelMode, SpeedProfile> {
+  if (model) return model;
+  model = { ...DEFAULT_MODEL };
+  const raw = Deno.env.get("FALLBACK_SPEED_MODEL");
+  if (!raw) return model;
+  try {
+    const overrides = JSON.parse(raw) as Partial<
+      Record<TravelMode, Partial<SpeedProfile>>
+    >;
+    for (const mode of Object.keys(model) as TravelMode[]) {
+      const merged = { ...model[mode], ...overrides[mode] };
+      // Unsinnige Werte verwerfen statt mit 0 km/h zu rechnen
+      if (
+        merged.urbanKmh > 0 && merged.ruralKmh > 0 && merged.detourFactor >= 1
+      ) {
+        model[mode] = merged;
+      }
+    }
+  } catch (err) {
+    console.error("FALLBACK_SPEED_MODEL is not valid JSON:", err);
+  }
+  return model;
+}
+
+/** Fahrzeit für eine Teilstrecke auf der Straße (km) */
+export function estimateLegSeconds(roadKm: number, mode: TravelMode): number {
+  const { urbanKmh, ruralKmh } = speedModel()[mode];
+  const urbanKm = Math.min(roadKm, 2 * URBAN_EDGE_KM);
+  const ruralKm = roadKm - urbanKm;
+  return Math.round((urbanKm / urbanKmh + ruralKm / ruralKmh) * 3600);
+}
+
+/** Umkehrung von estimateLegSeconds: Straßenstrecke (km) für eine Dauer */
+export function estimateLegKm(seconds: number, mode: TravelMode): number {
+  const { urbanKmh, ruralKmh } = speedModel()[mode];
+  const hours = seconds / 3600;
+  const urbanHours = Math.min(hours, (2 * URBAN_EDGE_KM) / urbanKmh);
+  return urbanHours * urbanKmh + (hours - urbanHours) * ruralKmh;
+}
+
+/** Straßenstrecke / Luftlinie für ein Profil */
+export function detourFactorFor(mode: TravelMode): number {
+  return speedModel()[mode].detourFactor;
+}
+
+export interface StraightLineEstimate {
+  distanceMeters: number;
+  durationSeconds: number;
+  confidence: Confidence;
+}
+
+/** Straßenstrecke und Dauer aus Luftlinien-Teilstrecken (km) schätzen */
+export function estimateFromStraightLine(
+  legKm: number[],
+  mode: TravelMode,
+): StraightLineEstimate {
+  const { detourFactor } = speedModel()[mode];
+  const roadKm = legKm.map((km) => km * detourFactor);
+  return {
+    distanceMeters: Math.round(roadKm.reduce((sum, km) => sum + km, 0) * 1000),
+    durationSeconds: roadKm.reduce(
+      (sum, km) => sum + estimateLegSeconds(km, mode),
+      0,
+    ),
+    confidence: "low",
+  };
+}
@@ -0,0 +1,21 @@
+import {
+  createClient,
+  type SupabaseClient,
+} from "https://esm.sh/@supabase/supabase-js@2.55.0";
+
+let adminClient: SupabaseClient | null | undefined;
+
+/**
+ * Service-Role-Client für serverseitige Tabellen (Caches, Zähler).
+ * Liefert null, wenn die Umgebung nicht konfiguriert ist (z.B. lokal ohne
+ * Supabase) – Aufrufer müssen dann ohne Datenbank auskommen.
+ */
+export function getAdminClient(): SupabaseClient | null {
+  if (adminClient !== undefined) return adminClient;
+  const url = Deno.env.get("SUPABASE_URL");
+  const key = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  adminClient = url && key
+    ? createClient(url, key, { auth: { persistSession: false } })
+    : null;
+  return adminClient;
+}
@@ -1,117 +1,380 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  API_VERSION,
+  type ErrorCode,
+  type GeocodingInfo,
+  type LoopInfo,
+  type RouteFallbackResponse,
+  type RouteOkResponse,
+  type RouteOptimization,
+  routeRequestSchema,
+  type RouteSummary,
+  toIssues,
+  type Waypoint,
+} from "../_shared/contract.ts";
+import { minRoleFromEnv, requireRole, requireUser } from "../_shared/auth.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  errorResponse,
+  providerErrorCode,
+  readJsonBody,
+  unexpectedErrorResponse,
+} from "../_shared/errors.ts";
+import { routeOnRoadGraph } from "../_shared/fallback/roadGraph.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import {
+  readRouteCache,
+  routeCacheKey,
+  writeRouteCache,
+} from "../_shared/routeCache.ts";
+import {
+  geocodeAll,
+  parseBias,
+  resolveCountryCodes,
+} from "../_shared/geocoding.ts";
+import {
+  distanceFromLineStringKm,
+  haversineKm,
+  type LatLngPoint,
+} from "../_shared/geo.ts";
+import { optimizeOrder, tourCost } from "../_shared/optimize.ts";
+import { computeEtas, parseTime } from "../_shared/schedule.ts";
+import { loopPoints, randomSeed } from "../_shared/loop.ts";
+import {
+  detourFactorFor,
+  estimateFromStraightLine,
+  estimateLegKm,
+  estimateLegSeconds,
+} from "../_shared/speedModel.ts";
+import {
+  AVOID_FEATURES_BY_MODE,
+  type AvoidFeature,
+  type CyclingOptions,
+  CYCLING_MODES,
+  getRoutingProvider,
+  ProviderError,
+  type ProviderRoute,
+  type TravelMode,
+  type VehicleRestrictions,
+} from "../_shared/routing/index.ts";
+
+// ORS erlaubt im Free-Tarif max. 50 Locations pro Matrix; wir bleiben deutlich darunter
+const MAX_OPTIMIZE_WAYPOINTS = 25;
+
+// Hauptroute + Alternativen zusammen
+const MAX_ALTERNATIVES = 3;
+
+// Rundtour: so viel Abweichung von der Ziellänge ist ohne Nachrechnen ok
+const LOOP_TOLERANCE = 0.2;
 
-const corsHeaders = {
-  "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers":
-    "authorization, x-client-info, apikey, content-type",
-};
-
-// --- Typen ---
-interface Waypoint {
-  id: string;
-  label: string;
-  address: string;
-  lat?: number;
-  lng?: number;
+// --- Utils ---
+// entfernt direkt aufeinanderfolgende Duplikate
+function dedupeConsecutive<T extends LatLngPoint>(points: T[]) {
+  const out: T[] = [];
+  for (const p of points) {
+    const last = out[out.length - 1];
+    if (!last || last.lat !== p.lat || last.lng !== p.lng) out.push(p);
+  }
+  return out;
 }
 
-interface RouteRequest {
-  waypoints: Waypoint[];
-  mode: "car" | "walking";
-  avoidTolls?: boolean;
-  avoidHighways?: boolean;
-  fastestRoute?: boolean;
+function almostEqual(a: number, b: number, tol = 1e-4) {
+  return Math.abs(a - b) < tol;
 }
 
-// --- Utils ---
-function calculateSimpleDistance(
-  waypoints: Array<{ lat: number; lng: number }>,
-): number {
-  if (waypoints.length < 2) return 0;
-  let totalKm = 0;
-  const R = 6371; // km
-
-  for (let i = 0; i < waypoints.length - 1; i++) {
-    const from = waypoints[i];
-    const to = waypoints[i + 1];
-    const dLat = ((to.lat - from.lat) * Math.PI) / 180;
-    const dLng = ((to.lng - from.lng) * Math.PI) / 180;
-    const a =
-      Math.sin(dLat / 2) ** 2 +
-      Math.cos((from.lat * Math.PI) / 180) *
-        Math.cos((to.lat * Math.PI) / 180) *
-        Math.sin(dLng / 2) ** 2;
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    totalKm += R * c;
-  }
-  return totalKm;
+function formatDuration(seconds: number) {
+  const mins = Math.round(seconds / 60);
+  return mins >= 60 ? `${Math.floor(mins / 60)}h ${mins % 60}min` : `${mins}min`;
 }
 
-async function geocodeAddress(
-  address: string,
-): Promise<{ lat: number; lng: number } | null> {
-  try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/search?format=json&q=${
-        encodeURIComponent(address)
-      }&limit=1&countrycodes=de`,
-      {
-        headers: {
-          "User-Agent": "route-wizard-hub/1.0 (contact: your-email@example.com)",
-        },
-      },
-    );
+function formatDistance(meters: number) {
+  return `${(meters / 1000).toFixed(1).replace(".", ",")} km`;
+}
 
-    const data = await response.json();
-    if (Array.isArray(data) && data.length > 0) {
-      return { lat: parseFloat(data[0].lat), lng: parseFloat(data[0].lon) };
-    }
-    return null;
-  } catch (err) {
-    console.error("Geocoding error:", err);
-    return null;
+// Nur positive, endliche Zahlen übernehmen; leeres Profil = keine Einschränkung
+function sanitizeVehicle(
+  vehicle: VehicleRestrictions | undefined,
+): VehicleRestrictions | undefined {
+  if (!vehicle || typeof vehicle !== "object") return undefined;
+  const out: VehicleRestrictions = {};
+  for (
+    const key of [
+      "lengthM",
+      "widthM",
+      "heightM",
+      "axleLoadT",
+      "weightT",
+    ] as const
+  ) {
+    const value = Number(vehicle[key]);
+    if (Number.isFinite(value) && value > 0) out[key] = value;
   }
+  if (vehicle.hazmatClass) out.hazmatClass = String(vehicle.hazmatClass);
+  return Object.keys(out).length ? out : undefined;
 }
 
-// entfernt direkt aufeinanderfolgende Duplikate
-function dedupeConsecutive(points: Array<{ lat: number; lng: number }>) {
-  const out: Array<{ lat: number; lng: number }> = [];
-  for (const p of points) {
-    const last = out[out.length - 1];
-    if (!last || last.lat !== p.lat || last.lng !== p.lng) out.push(p);
+interface ScheduleContext {
+  departureTime?: Date;
+  arrivalTime?: Date;
+}
+
+// Fahrzeit je Abschnitt; liefert der Provider keine passenden Segmente,
+// wird die Gesamtdauer nach Luftlinien-Anteil aufgeteilt
+function legDurations(
+  route: ProviderRoute,
+  points: LatLngPoint[],
+  totalSeconds: number,
+): number[] {
+  const legCount = points.length - 1;
+  if (route.segments.length === legCount) {
+    return route.segments.map((s) => s.durationSeconds);
   }
-  return out;
+  return splitByLegKm(points, totalSeconds);
 }
 
-function almostEqual(a: number, b: number, tol = 1e-4) {
-  return Math.abs(a - b) < tol;
+// Luftlinie je Abschnitt in km
+function legKm(points: LatLngPoint[]): number[] {
+  return points.slice(1).map((p, i) =>
+    haversineKm(points[i].lat, points[i].lng, p.lat, p.lng)
+  );
 }
 
-// Haversine + Liniendistanz aus GeoJSON-LineString ([lon,lat])
-function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number) {
-  const R = 6371;
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLon = (lon2 - lon1) * Math.PI / 180;
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(lat1 * Math.PI / 180) *
-      Math.cos(lat2 * Math.PI / 180) *
-      Math.sin(dLon / 2) ** 2;
-  return 2 * R * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+// Gesamtwert (Sekunden/Meter) nach Luftlinien-Anteil auf die Abschnitte verteilen
+function splitByLegKm(points: LatLngPoint[], total: number): number[] {
+  const km = legKm(points);
+  const sumKm = km.reduce((a, b) => a + b, 0);
+  return km.map((d) => sumKm > 0 ? (total * d) / sumKm : total / km.length);
 }
 
-function distanceFromLineStringKm(coords: [number, number][]) {
-  let sum = 0;
-  for (let i = 0; i < coords.length - 1; i++) {
-    const [lon1, lat1] = coords[i];
-    const [lon2, lat2] = coords[i + 1];
-    if ([lon1, lat1, lon2, lat2].every(Number.isFinite)) {
-      sum += haversineKm(lat1, lon1, lat2, lon2);
+// Dauer ohne Provider-Angabe: jeden Abschnitt einzeln schätzen, damit
+// Innerorts-Anteile an Zwischenstopps mitzählen
+function estimateRouteSeconds(
+  route: ProviderRoute,
+  points: LatLngPoint[],
+  distanceMeters: number,
+  mode: TravelMode,
+): number {
+  const legMeters = route.segments.length === points.length - 1
+    ? route.segments.map((s) => s.distanceMeters)
+    : splitByLegKm(points, distanceMeters);
+  return legMeters.reduce(
+    (sum, meters) => sum + estimateLegSeconds(meters / 1000, mode),
+    0,
+  );
+}
+
+// Geometrie-Bereich je Abschnitt. Ohne Angaben vom Provider suchen wir zu
+// jedem Zwischenziel den nächstgelegenen Geometriepunkt (monoton steigend).
+function legRanges(
+  route: ProviderRoute,
+  points: LatLngPoint[],
+): [number, number][] {
+  const legCount = points.length - 1;
+  const fromProvider = route.segments.map((s) => s.wayPoints);
+  if (
+    route.segments.length === legCount &&
+    fromProvider.every((r): r is [number, number] => !!r)
+  ) {
+    return fromProvider;
+  }
+
+  const coords = route.geometry.coordinates;
+  const indices = [0];
+  let searchFrom = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    let best = searchFrom;
+    let bestKm = Infinity;
+    for (let j = searchFrom; j < coords.length; j++) {
+      const [lon, lat] = coords[j];
+      const km = haversineKm(points[i].lat, points[i].lng, lat, lon);
+      if (km < bestKm) {
+        best = j;
+        bestKm = km;
+      }
     }
+    indices.push(best);
+    searchFrom = best;
   }
-  return sum;
+  indices.push(Math.max(0, coords.length - 1));
+  return indices.slice(1).map((end, i) => [indices[i], end]);
+}
+
+// Abschnitte zwischen je zwei Routenpunkten
+function buildLegs(
+  route: ProviderRoute,
+  points: Array<Waypoint & LatLngPoint>,
+  durations: number[],
+) {
+  const coords = route.geometry.coordinates;
+  const ranges = legRanges(route, points);
+  const segmentsMatch = route.segments.length === points.length - 1;
+
+  return ranges.map(([start, end], i) => {
+    const segment = segmentsMatch ? route.segments[i] : undefined;
+    const slice = coords.slice(start, end + 1);
+    const distanceMeters =
+      Math.round(distanceFromLineStringKm(slice) * 1000) ||
+      Math.round(segment?.distanceMeters ?? 0);
+    return {
+      from: { id: points[i].id, label: points[i].label },
+      to: { id: points[i + 1].id, label: points[i + 1].label },
+      distance: formatDistance(distanceMeters),
+      duration: formatDuration(durations[i]),
+      distanceMeters,
+      durationSeconds: Math.round(durations[i]),
+      instructions: (segment?.steps ?? []).map((step, k) =>
+        `${k + 1}. ${step.instruction}`
+      ),
+      steps: (segment?.steps ?? []).map((step) => ({
+        maneuver: step.maneuver,
+        instruction: step.instruction,
+        name: step.name,
+        distanceMeters: Math.round(step.distanceMeters),
+        durationSeconds: Math.round(step.durationSeconds),
+        exit: step.exit,
+        wayPoints: step.wayPoints,
+        // Manöver-Ort [lon,lat]: direkt vom Provider oder über den Geometrie-Index
+        location: step.location ??
+          (step.wayPoints ? coords[step.wayPoints[0]] : undefined),
+      })),
+      geometry: { type: "LineString" as const, coordinates: slice },
+    };
+  });
+}
+
+// Distanz/Dauer/Instruktionen einer Provider-Route für die Antwort aufbereiten
+function summarizeRoute(
+  route: ProviderRoute,
+  mode: TravelMode,
+  points: Array<Waypoint & LatLngPoint>,
+  schedule?: ScheduleContext,
+): RouteSummary {
+  // Distanz IMMER aus Geometrie summieren (statt summary.distance)
+  const distanceMeters = Math.round(
+    distanceFromLineStringKm(route.geometry.coordinates) * 1000,
+  );
+
+  // Dauer: wenn vom Provider vorhanden, nimm sie; sonst je Abschnitt schätzen
+  let durationSeconds = Number(route.durationSeconds);
+  const estimated = !Number.isFinite(durationSeconds) || durationSeconds <= 0;
+  if (estimated) {
+    durationSeconds = estimateRouteSeconds(route, points, distanceMeters, mode);
+  }
+
+  // Turn-by-Turn
+  const instructions: string[] = route.segments.flatMap((segment) =>
+    segment.steps.map((step, i) => `${i + 1}. ${step.instruction}`)
+  );
+
+  const durations = legDurations(route, points, durationSeconds);
+
+  const etas = schedule
+    ? computeEtas({
+      legDurationsSeconds: durations,
+      dwellSeconds: points.map((p) => (Number(p.dwellMinutes) || 0) * 60),
+      departureTime: schedule.departureTime,
+      arrivalTime: schedule.arrivalTime,
+    }).map((eta, i) => ({ waypointId: points[i].id, ...eta }))
+    : undefined;
+
+  return {
+    distance: formatDistance(distanceMeters),
+    duration: formatDuration(durationSeconds),
+    distanceMeters,
+    distanceKm: distanceMeters / 1000,
+    durationSeconds,
+    confidence: estimated ? "medium" : "high",
+    distanceSource: "geometry" as const, // explizit markieren
+    instructions,
+    geometry: route.geometry,
+    warnings: route.warnings ?? [],
+    legs: buildLegs(route, points, durations),
+    etas,
+  };
+}
+
+// Rundtour-Punkte als Routenpunkte mit Koordinaten (kein Geocoding nötig)
+function loopWaypoints(
+  start: Waypoint & LatLngPoint,
+  targetMeters: number,
+  detourFactor: number,
+  seed: number,
+): Array<Waypoint & LatLngPoint> {
+  const points = loopPoints(start, targetMeters, detourFactor, seed);
+  return [
+    start,
+    ...points.map((p, i) => ({
+      id: `loop-${i + 1}`,
+      label: `Rundtour-Punkt ${i + 1}`,
+      address: `${p.lat.toFixed(5)}, ${p.lng.toFixed(5)}`,
+      ...p,
+    })),
+  ];
+}
+
+// Luftlinie als GeoJSON, damit der Client nur ein Geometrieformat kennt
+function straightLine(points: LatLngPoint[]) {
+  return {
+    type: "LineString" as const,
+    coordinates: points.map((p): [number, number] => [p.lng, p.lat]),
+  };
 }
 
+// Fallback bei Provider-Fehlern: Offline-Straßennetz, sonst Luftlinie mal
+// Umwegfaktor (siehe speedModel.ts)
+async function degradedFallback(
+  valid: Array<Waypoint & LatLngPoint>,
+  routedPoints: LatLngPoint[],
+  mode: TravelMode,
+  code: ErrorCode,
+  errorMessage: string,
+  debug: Record<string, unknown>,
+  geocoding: GeocodingInfo,
+) {
+  const offline = await routeOnRoadGraph(routedPoints, mode);
+  const estimate = offline
+    ? { ...offline, confidence: "medium" as const }
+    : estimateFromStraightLine(legKm(routedPoints), mode);
+  const body: RouteFallbackResponse = {
+    apiVersion: API_VERSION,
+    method: offline ? "road-graph" : "straight-line",
+    distance: formatDistance(estimate.distanceMeters),
+    duration: formatDuration(estimate.durationSeconds),
+    distanceMeters: estimate.distanceMeters,
+    durationSeconds: estimate.durationSeconds,
+    confidence: estimate.confidence,
+    instructions: valid.map((wp, i) =>
+      i === 0
+        ? `1. Start in ${wp.address}`
+        : i === valid.length - 1
+        ? `${i + 1}. Ziel: ${wp.address}`
+        : `${i + 1}. Weiter nach ${wp.address}`
+    ),
+    geometry: offline?.geometry ?? straightLine(routedPoints),
+    waypoints: valid,
+    fallback: true,
+    code,
+    errorMessage,
+    debug: offline ? { ...debug, maxSnapMeters: offline.maxSnapMeters } : debug,
+    geocoding,
+  };
+  return jsonResponse(body);
+}
+
+// Je Nutzer; überschreibbar per RATE_LIMIT_CALCULATE_ROUTE
+const RATE_LIMIT = { limit: 30, windowSeconds: 60 };
+
+// Mindestrollen: Routen an sich vs. teure Optionen (Matrix-Anfragen bzw. viele Legs)
+const MIN_ROLE = minRoleFromEnv("ROUTE_MIN_ROLE", "user");
+const OPTIMIZE_MIN_ROLE = minRoleFromEnv("ROUTE_OPTIMIZE_MIN_ROLE", "admin");
+const MANY_WAYPOINTS_MIN_ROLE = minRoleFromEnv(
+  "ROUTE_MANY_WAYPOINTS_MIN_ROLE",
+  "admin",
+);
+/** Bis zu so vielen Routenpunkten reicht MIN_ROLE */
+const BASIC_MAX_WAYPOINTS = Number(Deno.env.get("ROUTE_BASIC_MAX_WAYPOINTS")) ||
+  5;
+
 // --- Main Handler ---
 serve(async (req) => {
   // CORS preflight
@@ -120,49 +383,142 @@ serve(async (req) => {
   }
 
   try {
+    const user = await requireUser(req);
+    if (user instanceof Response) return user;
+
+    const limited = await enforceRateLimit(
+      req,
+      "calculate-route",
+      RATE_LIMIT,
+      user.id,
+    );
+    if (limited) return limited;
+
+    const denied = await requireRole(user, MIN_ROLE, "Routenberechnung");
+    if (denied) return denied;
+
+    const payload = await readJsonBody(req);
+    if (payload instanceof Response) return payload;
+
+    const parsed = routeRequestSchema.safeParse(payload);
+    if (!parsed.success) {
+      return errorResponse("INVALID_REQUEST", "Ungültige Anfrage", {
+        issues: toIssues(parsed.error),
+      });
+    }
+
     const {
-      waypoints,
-      mode,
+      waypoints: requestedWaypoints,
+      mode: travelMode,
       avoidTolls,
       avoidHighways,
       fastestRoute,
-    }: RouteRequest = await req.json();
-
-    if (!Array.isArray(waypoints) || waypoints.length < 2) {
-      return new Response(
-        JSON.stringify({
-          fallback: true,
-          errorMessage: "Mindestens 2 gültige Adressen erforderlich",
-          geometry: [],
-          waypoints: waypoints ?? [],
-          distance: "0 km",
-          duration: "0min",
-          instructions: [],
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      avoidSteps,
+      avoidFerries,
+      avoidFords,
+      avoidUnpaved,
+      avoidBorders,
+      avoidAreas,
+      steepnessDifficulty,
+      vehicle: rawVehicle,
+      departureTime: rawDepartureTime,
+      arrivalTime: rawArrivalTime,
+      optimizeOrder: shouldOptimize,
+      roundTrip: wantsRoundTrip,
+      alternatives: wantsAlternatives,
+      provider: requestedProvider,
+      countries,
+      bias,
+      allowFallback,
+      bypassCache,
+      loop: loopRequest,
+    } = parsed.data;
+
+    // Rundtour: nur der Start zählt; ohne Seed einen würfeln, damit Cache-Key
+    // und Antwort dieselbe Runde beschreiben
+    const loop = loopRequest && {
+      ...loopRequest,
+      seed: loopRequest.seed ?? randomSeed(),
+    };
+    const waypoints = loop
+      ? requestedWaypoints.slice(0, 1)
+      : requestedWaypoints;
+    const roundTrip = wantsRoundTrip || !!loop;
+
+    if (shouldOptimize) {
+      const denied = await requireRole(
+        user,
+        OPTIMIZE_MIN_ROLE,
+        "Reihenfolge optimieren",
+      );
+      if (denied) return denied;
+    }
+    if (waypoints.length > BASIC_MAX_WAYPOINTS) {
+      const denied = await requireRole(
+        user,
+        MANY_WAYPOINTS_MIN_ROLE,
+        `Mehr als ${BASIC_MAX_WAYPOINTS} Routenpunkte`,
       );
+      if (denied) return denied;
     }
 
-    const orsApiKey = Deno.env.get("OPENROUTE_SERVICE_API_KEY");
-    if (!orsApiKey) throw new Error("OpenRouteService API key not configured");
+    const provider = getRoutingProvider(requestedProvider);
+
+    // Gleiche Anfrage -> gespeicherte Antwort, ohne Geocoding und Routing-Dienst
+    const cacheKey = await routeCacheKey(
+      { ...parsed.data, waypoints, loop },
+      provider.name,
+    );
+    if (!bypassCache) {
+      const cached = await readRouteCache(cacheKey);
+      if (cached) {
+        const hit: RouteOkResponse = {
+          ...cached.response,
+          cache: { status: "hit", key: cacheKey, expiresAt: cached.expiresAt },
+        };
+        return jsonResponse(hit);
+      }
+    }
 
     // Geocoding fehlender Koordinaten
-    const geocoded = await Promise.all(
-      waypoints.map(async (wp) => {
-        if (Number.isFinite(wp.lat) && Number.isFinite(wp.lng)) return wp;
-        const coords = await geocodeAddress(wp.address);
-        return coords ? { ...wp, ...coords } : wp;
-      }),
+    const countryCodes = resolveCountryCodes(countries);
+    const { items: geocoded, ambiguities } = await geocodeAll(
+      provider,
+      waypoints,
+      { countryCodes, bias: parseBias(bias) },
     );
+    const geocoding: GeocodingInfo = { countryCodes, ambiguities };
 
-    // Nur valide Punkte
-    let valid = geocoded.filter((w) =>
-      Number.isFinite(w.lat) && Number.isFinite(w.lng)
-    ) as Array<Waypoint & { lat: number; lng: number }>;
+    // Nicht gefundene Adressen melden statt still zu überspringen
+    const unresolved = geocoded.filter((w) =>
+      !Number.isFinite(w.lat) || !Number.isFinite(w.lng)
+    );
+    if (unresolved.length) {
+      return errorResponse(
+        "GEOCODE_FAILED",
+        `Adresse nicht gefunden: ${
+          unresolved.map((w) => w.address || w.label).join(", ")
+        }`,
+        { waypointIds: unresolved.map((w) => w.id) },
+      );
+    }
+    let valid = geocoded as Array<Waypoint & LatLngPoint>;
 
     // Duplikate direkt hintereinander entfernen
     valid = dedupeConsecutive(valid);
 
+    // Rundtour: Zwischenpunkte um den Start legen (siehe loop.ts)
+    let loopInfo: LoopInfo | undefined;
+    let loopDetour = detourFactorFor(travelMode);
+    if (loop) {
+      const targetMeters = loop.lengthMeters ??
+        Math.round(
+          estimateLegKm((loop.durationMinutes ?? 0) * 60, travelMode) * 1000,
+        );
+      loopInfo = { seed: loop.seed, targetMeters };
+      valid = loopWaypoints(valid[0], targetMeters, loopDetour, loop.seed);
+    }
+
     // Mindestens 2 unterschiedliche Punkte (mit Toleranz)
     if (
       valid.length < 2 ||
@@ -170,212 +526,242 @@ serve(async (req) => {
         almostEqual(valid[0].lat, valid[1].lat) &&
         almostEqual(valid[0].lng, valid[1].lng))
     ) {
-      return new Response(
-        JSON.stringify({
-          fallback: true,
-          errorMessage:
-            "Start und Ziel dürfen nicht identisch sein / zu wenig unterschiedliche Punkte haben",
-          geometry: valid.map((w) => [w.lat, w.lng]),
-          waypoints: valid,
-          distance: "0 km",
-          duration: "0min",
-          instructions: [],
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      return errorResponse(
+        "IDENTICAL_POINTS",
+        "Start und Ziel dürfen nicht identisch sein / zu wenig unterschiedliche Punkte haben",
+        { waypointIds: waypoints.map((w) => w.id) },
       );
     }
 
-    // ORS-Profile & Optionen
-    const profile = mode === "walking" ? "foot-walking" : "driving-car";
-    const options: Record<string, unknown> = {};
-    if (profile === "driving-car") {
-      const avoid: string[] = [];
-      if (avoidTolls) avoid.push("tollways");
-      if (avoidHighways) avoid.push("highways");
-      if (avoid.length) options.avoid_features = avoid;
+    // Provider-Fehler: Luftlinie (Standard) oder Fehlerantwort mit Status
+    const providerFailure = (
+      code: ErrorCode,
+      message: string,
+      debug: Record<string, unknown>,
+    ) =>
+      allowFallback === false
+        ? errorResponse(code, message, { debug })
+        : degradedFallback(
+          valid,
+          roundTrip ? [...valid, valid[0]] : valid,
+          travelMode,
+          code,
+          message,
+          debug,
+          geocoding,
+        );
+
+    const isCycling = CYCLING_MODES.includes(travelMode);
+
+    // Nur Vermeidungen schicken, die das Profil auch kennt
+    const requestedAvoid: AvoidFeature[] = [];
+    if (avoidTolls) requestedAvoid.push("tollways");
+    if (avoidHighways) requestedAvoid.push("highways");
+    if (avoidSteps) requestedAvoid.push("steps");
+    if (avoidFerries) requestedAvoid.push("ferries");
+    if (avoidFords) requestedAvoid.push("fords");
+    if (avoidUnpaved) requestedAvoid.push("unpaved");
+    if (avoidBorders) requestedAvoid.push("borders");
+    const avoidFeatures = requestedAvoid.filter((f) =>
+      AVOID_FEATURES_BY_MODE[travelMode].includes(f)
+    );
+
+    const warnings: string[] = [];
+    let vehicle = sanitizeVehicle(rawVehicle);
+    if (vehicle && travelMode !== "truck") {
+      warnings.push(
+        "Fahrzeugabmessungen werden nur im LKW-Modus berücksichtigt.",
+      );
+      vehicle = undefined;
+    }
+    const preference = fastestRoute ? "fastest" : "shortest";
+
+    // Optional: Reihenfolge optimieren. Die Ersparnis wird aus der Matrix
+    // geschätzt (Original- vs. neue Reihenfolge), nicht aus zwei Routen.
+    let optimization: RouteOptimization | undefined;
+    if (shouldOptimize && !loop && valid.length > 2) {
+      if (valid.length > MAX_OPTIMIZE_WAYPOINTS) {
+        optimization = {
+          applied: false,
+          reason:
+            `Optimierung ist auf ${MAX_OPTIMIZE_WAYPOINTS} Routenpunkte begrenzt`,
+        };
+      } else {
+        try {
+          const matrix = await provider.matrix({
+            sources: valid,
+            destinations: valid,
+            mode: travelMode,
+          });
+          const cost = preference === "fastest"
+            ? matrix.durationsSeconds
+            : matrix.distancesMeters;
+          const order = optimizeOrder(cost, !!roundTrip);
+          const identity = valid.map((_, i) => i);
+
+          const originalDistanceMeters = tourCost(
+            identity,
+            matrix.distancesMeters,
+            !!roundTrip,
+          );
+          const originalDurationSeconds = tourCost(
+            identity,
+            matrix.durationsSeconds,
+            !!roundTrip,
+          );
+          const optimizedDistanceMeters = tourCost(
+            order,
+            matrix.distancesMeters,
+            !!roundTrip,
+          );
+          const optimizedDurationSeconds = tourCost(
+            order,
+            matrix.durationsSeconds,
+            !!roundTrip,
+          );
+
+          valid = order.map((i) => valid[i]);
+          optimization = {
+            applied: true,
+            order: valid.map((w) => w.id),
+            changed: order.some((idx, i) => idx !== i),
+            roundTrip: !!roundTrip,
+            originalDistanceMeters,
+            originalDurationSeconds,
+            optimizedDistanceMeters,
+            optimizedDurationSeconds,
+            savedDistanceMeters: originalDistanceMeters -
+              optimizedDistanceMeters,
+            savedDurationSeconds: originalDurationSeconds -
+              optimizedDurationSeconds,
+          };
+        } catch (err) {
+          if (!(err instanceof ProviderError)) throw err;
+          console.warn("Matrix for optimization failed:", err.message);
+          optimization = { applied: false, reason: err.message };
+        }
+      }
     }
 
-    // ORS Request: GeoJSON-Endpoint verwenden
-    const coordinates: [number, number][] = valid.map((w) => [w.lng, w.lat]); // [lon,lat]
-    const orsRes = await fetch(
-      `https://api.openrouteservice.org/v2/directions/${profile}/geojson`,
-      {
-        method: "POST",
-        headers: {
-          Authorization: orsApiKey,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          coordinates,
-          preference: fastestRoute ? "fastest" : "shortest",
-          options: Object.keys(options).length ? options : undefined,
-          instructions: true,
-          units: "km",
-        }),
-      },
-    );
+    // Rundreise: zum Schluss zurück zum Start
+    let routedPoints = roundTrip ? [...valid, valid[0]] : valid;
+
+    const directions = (coordinates: LatLngPoint[]) =>
+      provider.directions({
+        coordinates,
+        mode: travelMode,
+        preference,
+        avoidFeatures,
+        avoidAreas: avoidAreas?.length ? avoidAreas : undefined,
+        cycling: isCycling && steepnessDifficulty !== undefined
+          // Schema begrenzt auf ganze Zahlen 0–3
+          ? {
+            steepnessDifficulty: steepnessDifficulty as CyclingOptions[
+              "steepnessDifficulty"
+            ],
+          }
+          : undefined,
+        vehicle,
+        // Die Upstream-Dienste rechnen Alternativen nur zwischen genau 2 Punkten
+        alternatives: wantsAlternatives && coordinates.length === 2
+          ? MAX_ALTERNATIVES
+          : undefined,
+      });
+
+    let routes: ProviderRoute[];
+    try {
+      routes = await directions(routedPoints);
+    } catch (err) {
+      if (!(err instanceof ProviderError)) throw err;
+      return providerFailure(providerErrorCode(err), err.message, {
+        provider: provider.name,
+        ...err.debug,
+        status: err.status,
+      });
+    }
 
-    if (!orsRes.ok) {
-      const txt = await orsRes.text();
-      console.error("OpenRouteService error:", txt);
-      const errMsg = (() => {
+    // Rundtour deutlich zu lang/kurz: Umwegfaktor anhand der echten Strecke
+    // korrigieren und einmal neu rechnen, die bessere Runde gewinnt. Scheitert
+    // der zweite Versuch, bleibt es bei der ersten Runde.
+    if (loop && loopInfo && routes[0]) {
+      const target = loopInfo.targetMeters;
+      const actual = distanceFromLineStringKm(
+        routes[0].geometry.coordinates,
+      ) * 1000;
+      if (Math.abs(actual / target - 1) > LOOP_TOLERANCE) {
+        loopDetour *= actual / target;
+        const retry = loopWaypoints(valid[0], target, loopDetour, loop.seed);
         try {
-          const j = JSON.parse(txt);
-          return j?.error?.message || j?.message || txt;
-        } catch {
-          return txt;
+          const retryRoutes = await directions([...retry, retry[0]]);
+          const retryActual = retryRoutes[0]
+            ? distanceFromLineStringKm(retryRoutes[0].geometry.coordinates) *
+              1000
+            : Infinity;
+          if (Math.abs(retryActual - target) < Math.abs(actual - target)) {
+            valid = retry;
+            routedPoints = [...retry, retry[0]];
+            routes = retryRoutes;
+          }
+        } catch (err) {
+          if (!(err instanceof ProviderError)) throw err;
+          console.warn("Loop retry failed, keeping first loop:", err.message);
         }
-      })();
-
-      // -> Fallback Luftlinie
-      const km = calculateSimpleDistance(valid);
-      const mins = Math.round(km);
-
-      return new Response(
-        JSON.stringify({
-          distance: `${Math.round(km).toLocaleString("de-DE")} km`,
-          duration: mins >= 60
-            ? `${Math.floor(mins / 60)}h ${mins % 60}min`
-            : `${mins}min`,
-          instructions: valid.map((wp, i) =>
-            i === 0
-              ? `1. Start in ${wp.address}`
-              : i === valid.length - 1
-              ? `${i + 1}. Ziel: ${wp.address}`
-              : `${i + 1}. Weiter nach ${wp.address}`
-          ),
-          geometry: valid.map((w) => [w.lat, w.lng]), // Leaflet [lat,lng]
-          waypoints: valid,
-          fallback: true,
-          errorMessage: `ORS HTTP ${orsRes.status}: ${errMsg}`,
-          debug: {
-            endpoint: `/v2/directions/${profile}/geojson`,
-            profile,
-            sentCoordinates: coordinates,
-            reason: "http_error",
-          },
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
-      );
+      }
     }
 
-    const data = await orsRes.json();
+    const route = routes[0];
+    if (!route) {
+      console.warn(`${provider.name} returned no usable route, falling back.`);
+      return providerFailure(
+        "PROVIDER_NO_ROUTE",
+        "Der Routing-Dienst lieferte keine Route zwischen den Punkten.",
+        { provider: provider.name, mode: travelMode },
+      );
+    }
 
-    // ---- GeoJSON-Parsing (FeatureCollection) ----
-    const feature = data?.features?.[0];
+    // Zeitplanung: Abfahrt hat Vorrang vor gewünschter Ankunft
+    const departureTime = parseTime(rawDepartureTime);
+    const arrivalTime = parseTime(rawArrivalTime);
     if (
-      !feature?.geometry ||
-      feature.geometry.type !== "LineString" ||
-      !Array.isArray(feature.geometry.coordinates)
+      (rawDepartureTime && !departureTime) || (rawArrivalTime && !arrivalTime)
     ) {
-      console.warn("ORS returned no usable route, falling back.");
-      const km = calculateSimpleDistance(valid);
-      const mins = Math.round(km);
-
-      return new Response(
-        JSON.stringify({
-          distance: `${km.toFixed(1).replace(".", ",")} km`,
-          duration: mins >= 60
-            ? `${Math.floor(mins / 60)}h ${mins % 60}min`
-            : `${mins}min`,
-          instructions: valid.map((wp, i) =>
-            i === 0
-              ? `1. Start in ${wp.address}`
-              : i === valid.length - 1
-              ? `${i + 1}. Ziel: ${wp.address}`
-              : `${i + 1}. Weiter nach ${wp.address}`
-          ),
-          geometry: valid.map((w) => [w.lat, w.lng]),
-          waypoints: valid,
-          fallback: true,
-          errorMessage: "ORS lieferte keine Route zwischen den Punkten.",
-          debug: {
-            endpoint: `/v2/directions/${profile}/geojson`,
-            profile,
-            sentCoordinates: coordinates,
-            featureCount: Array.isArray(data?.features)
-              ? data.features.length
-              : 0,
-            reason: "no_feature",
-          },
-        }),
-        { headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      warnings.push("Ungültige Zeitangabe wurde ignoriert.");
+    }
+    if (departureTime && arrivalTime) {
+      warnings.push(
+        "Abfahrt und Ankunft angegeben – es wird ab der Abfahrt gerechnet.",
       );
     }
+    const schedule = departureTime || arrivalTime
+      ? { departureTime, arrivalTime }
+      : undefined;
 
-    // ----- Distanz/Dauer ermitteln -----
-    const props = feature.properties ?? {};
-    const summary = props.summary ?? {};
-
-    // Distanz IMMER aus Geometrie summieren (statt summary.distance)
-    let distanceMeters = Math.round(
-      distanceFromLineStringKm(
-        feature.geometry.coordinates as [number, number][],
-      ) * 1000,
+    // Alternativen nur, wenn der Provider welche geliefert hat
+    const variants = routes.slice(0, MAX_ALTERNATIVES).map((r) =>
+      summarizeRoute(r, travelMode, routedPoints, schedule)
     );
 
-    // Dauer: wenn summary.duration vorhanden, nimm sie; sonst grob schätzen
-    let durationSeconds = Number(summary.duration);
-    if (!Number.isFinite(durationSeconds) || durationSeconds <= 0) {
-      const km = distanceMeters / 1000;
-      const speedKmh = profile === "foot-walking" ? 4.5 : 60;
-      durationSeconds = Math.round((km / speedKmh) * 3600);
-    }
-
-    // Formatierung
-    const distanceKm = distanceMeters / 1000;
-    const durH = Math.floor(durationSeconds / 3600);
-    const durM = Math.round((durationSeconds % 3600) / 60);
-
-    const distanceStr = `${distanceKm.toFixed(1).replace(".", ",")} km`;
-    const durationStr = durH > 0 ? `${durH}h ${durM}min` : `${durM}min`;
-
-    const distanceSource: "geometry" = "geometry"; // explizit markieren
-
-    // Turn-by-Turn
-    const instructions: string[] = Array.isArray((props as any).segments)
-      ? (props as any).segments.flatMap((segment: any) =>
-          Array.isArray(segment?.steps)
-            ? segment.steps.map(
-                (step: any, i: number) => `${i + 1}. ${step.instruction}`,
-              )
-            : [],
-        )
-      : [];
-
-    // GeoJSON LineString zurückgeben
-    const lineString =
-      feature.geometry?.type === "LineString" &&
-      Array.isArray(feature.geometry?.coordinates)
-        ? feature.geometry
-        : { type: "LineString", coordinates: [] };
-
-    const result = {
-      distance: distanceStr,
-      duration: durationStr,
-      distanceMeters,
-      distanceKm,
-      durationSeconds,
-      distanceSource,
-      instructions,
-      geometry: lineString,
+    const result: RouteOkResponse = {
+      ...variants[0],
+      apiVersion: API_VERSION,
       waypoints: valid,
       fallback: false,
+      provider: provider.name,
+      optimization,
+      alternatives: variants.length > 1 ? variants : undefined,
+      warnings: [...warnings, ...variants[0].warnings],
+      geocoding,
+      loop: loopInfo,
+    };
+    result.cache = {
+      status: bypassCache ? "bypass" : "miss",
+      key: cacheKey,
+      expiresAt: await writeRouteCache(cacheKey, result),
     };
 
-    return new Response(JSON.stringify(result), {
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
-  } catch (error: any) {
+    return jsonResponse(result);
+  } catch (error) {
     console.error("Error in calculate-route function:", error);
-    return new Response(
-      JSON.stringify({
-        error: error?.message ?? "Fehler bei der Routenberechnung",
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      },
-    );
+    return unexpectedErrorResponse(error, "Fehler bei der Routenberechnung");
   }
 });
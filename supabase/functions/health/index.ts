@@ -0,0 +1,83 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { unexpectedErrorResponse } from "../_shared/errors.ts";
+import { getAdminClient } from "../_shared/supabase.ts";
+
+// --- Typen ---
+interface ProviderHealthRow {
+  provider: string;
+  state: "closed" | "open" | "half-open";
+  failures: number;
+  open_until: string | null;
+  updated_at: string;
+}
+
+// Welche Upstream-Dienste in dieser Umgebung nutzbar sind
+function configuredProviders(): Record<string, boolean> {
+  return {
+    ors: !!Deno.env.get("OPENROUTE_SERVICE_API_KEY"),
+    osrm: true,
+    graphhopper: !!Deno.env.get("GRAPHHOPPER_API_KEY"),
+    nominatim: true,
+    photon: true,
+    // Offline-Straßennetz für Provider-Ausfälle (siehe fallback/roadGraph.ts)
+    "road-graph": !!Deno.env.get("FALLBACK_GRAPH_URL"),
+  };
+}
+
+// --- Main Handler ---
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    // Öffentlich abrufbar: keine Upstream-Fehlertexte ausliefern (last_error
+    // können Admins direkt in provider_health lesen)
+    const db = getAdminClient();
+    let rows: ProviderHealthRow[] = [];
+    if (db) {
+      const { data, error } = await db
+        .from("provider_health")
+        .select("provider, state, failures, open_until, updated_at");
+      if (error) console.error("provider_health read error:", error.message);
+      rows = (data as ProviderHealthRow[] | null) ?? [];
+    }
+    const byProvider = new Map(rows.map((row) => [row.provider, row]));
+
+    const now = Date.now();
+    const providers = Object.entries(configuredProviders()).map(
+      ([name, configured]) => {
+        const row = byProvider.get(name);
+        // Abgelaufene Sperre: die nächste Anfrage ist eine Probeanfrage
+        const state = row?.state === "open" && row.open_until &&
+            new Date(row.open_until).getTime() <= now
+          ? "half-open"
+          : row?.state ?? "closed";
+        return {
+          name,
+          configured,
+          state,
+          failures: row?.failures ?? 0,
+          openUntil: row?.open_until ?? null,
+          updatedAt: row?.updated_at ?? null,
+        };
+      },
+    );
+
+    const degraded = providers.some((p) =>
+      p.configured && p.state !== "closed"
+    );
+    return jsonResponse({
+      status: degraded ? "degraded" : "ok",
+      // Ohne Datenbank kennt nur die jeweilige Instanz ihren Zustand
+      persisted: !!db,
+      providers,
+      checkedAt: new Date(now).toISOString(),
+    });
+  } catch (error) {
+    console.error("Error in health function:", error);
+    return unexpectedErrorResponse(error, "Fehler beim Health-Check");
+  }
+});
@@ -0,0 +1,120 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { requireUser } from "../_shared/auth.ts";
+import { isochroneRequestSchema, toIssues } from "../_shared/contract.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  errorResponse,
+  providerErrorCode,
+  readJsonBody,
+  unexpectedErrorResponse,
+} from "../_shared/errors.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { resolveCountryCodes } from "../_shared/geocoding.ts";
+import { getRoutingProvider, ProviderError } from "../_shared/routing/index.ts";
+
+const RATE_LIMIT = { limit: 10, windowSeconds: 60 };
+
+// --- Main Handler ---
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await requireUser(req);
+    if (user instanceof Response) return user;
+    const limited = await enforceRateLimit(
+      req,
+      "isochrones",
+      RATE_LIMIT,
+      user.id,
+    );
+    if (limited) return limited;
+
+    const payload = await readJsonBody(req);
+    if (payload instanceof Response) return payload;
+    const parsed = isochroneRequestSchema.safeParse(payload);
+    if (!parsed.success) {
+      return errorResponse("INVALID_REQUEST", "Ungültige Anfrage", {
+        issues: toIssues(parsed.error),
+      });
+    }
+    const {
+      lat,
+      lng,
+      address,
+      mode: travelMode,
+      rangeType,
+      ranges,
+      provider: requestedProvider,
+      countries,
+      bias,
+    } = parsed.data;
+
+    const provider = getRoutingProvider(requestedProvider);
+
+    // Mittelpunkt: Koordinaten bevorzugen, sonst geocoden
+    const center = lat !== undefined && lng !== undefined
+      ? { lat, lng }
+      : address
+      ? (await provider.geocode(address, {
+        countryCodes: resolveCountryCodes(countries),
+        bias,
+        limit: 1,
+      }))[0]
+      : null;
+    if (!center) {
+      return errorResponse(
+        address ? "GEOCODE_FAILED" : "INVALID_REQUEST",
+        "Mittelpunkt konnte nicht bestimmt werden",
+      );
+    }
+
+    // Provider rechnen in Sekunden bzw. Metern
+    const unitFactor = rangeType === "time" ? 60 : 1000;
+    const sorted = [...ranges].sort((a, b) => a - b);
+
+    let polygons;
+    try {
+      polygons = await provider.isochrones({
+        center,
+        mode: travelMode,
+        rangeType,
+        ranges: sorted.map((r) => r * unitFactor),
+      });
+    } catch (err) {
+      if (!(err instanceof ProviderError)) throw err;
+      return errorResponse(providerErrorCode(err), err.message, {
+        debug: { provider: provider.name, ...err.debug },
+      });
+    }
+
+    return jsonResponse({
+      center,
+      mode: travelMode,
+      rangeType,
+      provider: provider.name,
+      isochrones: {
+        type: "FeatureCollection",
+        // Größtes Polygon zuerst, damit kleinere darüber gezeichnet werden
+        features: polygons
+          .sort((a, b) => b.range - a.range)
+          .map((p) => ({
+            type: "Feature",
+            properties: {
+              range: p.range / unitFactor,
+              unit: rangeType === "time" ? "min" : "km",
+            },
+            geometry: p.geometry,
+          })),
+      },
+    });
+  } catch (error) {
+    console.error("Error in isochrones function:", error);
+    return unexpectedErrorResponse(
+      error,
+      "Fehler bei der Erreichbarkeitsberechnung",
+    );
+  }
+});
@@ -0,0 +1,155 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { minRoleFromEnv, requireRole, requireUser } from "../_shared/auth.ts";
+import {
+  type MatrixLocation,
+  matrixRequestSchema,
+  toIssues,
+} from "../_shared/contract.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  errorResponse,
+  providerErrorCode,
+  readJsonBody,
+  unexpectedErrorResponse,
+} from "../_shared/errors.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { geocodeAll, resolveCountryCodes } from "../_shared/geocoding.ts";
+import type { LatLngPoint } from "../_shared/geo.ts";
+import { getRoutingProvider, ProviderError } from "../_shared/routing/index.ts";
+
+// Obergrenzen gegen teure Upstream-Anfragen (ORS erlaubt 3500 Zellen und
+// im Free-Tarif 50 Locations)
+const MAX_MATRIX_CELLS = 625;
+const MAX_MATRIX_LOCATIONS = 50;
+
+function isResolved<T extends { lat?: number; lng?: number }>(
+  loc: T,
+): loc is T & LatLngPoint {
+  return Number.isFinite(loc.lat) && Number.isFinite(loc.lng);
+}
+
+const RATE_LIMIT = { limit: 10, windowSeconds: 60 };
+const MIN_ROLE = minRoleFromEnv("MATRIX_MIN_ROLE", "admin");
+
+// --- Main Handler ---
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await requireUser(req);
+    if (user instanceof Response) return user;
+    const limited = await enforceRateLimit(req, "matrix", RATE_LIMIT, user.id);
+    if (limited) return limited;
+    const denied = await requireRole(user, MIN_ROLE, "Distanzmatrix");
+    if (denied) return denied;
+
+    const payload = await readJsonBody(req);
+    if (payload instanceof Response) return payload;
+    const parsed = matrixRequestSchema.safeParse(payload);
+    if (!parsed.success) {
+      return errorResponse("INVALID_REQUEST", "Ungültige Anfrage", {
+        issues: toIssues(parsed.error),
+      });
+    }
+    const {
+      origins,
+      destinations,
+      mode: travelMode,
+      provider: requestedProvider,
+      countries,
+      bias,
+    } = parsed.data;
+
+    const targets = destinations?.length ? destinations : origins;
+    // Quadratische Matrix: Starts und Ziele sind dieselben Punkte
+    const square = targets === origins;
+    const locationCount = square
+      ? origins.length
+      : origins.length + targets.length;
+    if (locationCount > MAX_MATRIX_LOCATIONS) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Zu viele Punkte (${locationCount}, max. ${MAX_MATRIX_LOCATIONS})`,
+      );
+    }
+    if (origins.length * targets.length > MAX_MATRIX_CELLS) {
+      return errorResponse(
+        "INVALID_REQUEST",
+        `Matrix zu groß (${origins.length}×${targets.length}, max. ${MAX_MATRIX_CELLS} Zellen)`,
+      );
+    }
+
+    const provider = getRoutingProvider(requestedProvider);
+    const geocodeOptions = {
+      countryCodes: resolveCountryCodes(countries),
+      bias,
+    };
+    const withIds = (list: MatrixLocation[], prefix: string) =>
+      list.map((loc, i) => ({ ...loc, id: loc.id ?? `${prefix}${i}` }));
+    const geocodedOrigins = geocodeAll(
+      provider,
+      withIds(origins, "o"),
+      geocodeOptions,
+    );
+    // Quadratisch: Ziele nicht ein zweites Mal geocoden
+    const [sources, dests] = await Promise.all([
+      geocodedOrigins,
+      square
+        ? geocodedOrigins
+        : geocodeAll(provider, withIds(targets, "d"), geocodeOptions),
+    ]);
+
+    const unresolved = [...sources.items, ...dests.items]
+      .filter((loc) => !isResolved(loc));
+    if (unresolved.length) {
+      const addresses = new Set(unresolved.map((loc) => loc.address ?? loc.id));
+      return errorResponse(
+        "GEOCODE_FAILED",
+        `Adresse nicht gefunden: ${[...addresses].join(", ")}`,
+        { waypointIds: [...new Set(unresolved.map((loc) => loc.id))] },
+      );
+    }
+
+    const resolvedSources = sources.items.filter(isResolved);
+    const resolvedDests = dests.items.filter(isResolved);
+
+    let matrix;
+    try {
+      matrix = await provider.matrix({
+        sources: resolvedSources.map(({ lat, lng }) => ({ lat, lng })),
+        destinations: resolvedDests.map(({ lat, lng }) => ({ lat, lng })),
+        mode: travelMode,
+      });
+    } catch (err) {
+      if (!(err instanceof ProviderError)) throw err;
+      return errorResponse(providerErrorCode(err), err.message, {
+        debug: { provider: provider.name, ...err.debug },
+      });
+    }
+
+    return jsonResponse({
+      mode: travelMode,
+      provider: provider.name,
+      origins: resolvedSources,
+      destinations: resolvedDests,
+      // Zeilen = origins, Spalten = destinations; null = nicht erreichbar
+      distancesMeters: matrix.distancesMeters,
+      durationsSeconds: matrix.durationsSeconds,
+      geocoding: {
+        countryCodes: geocodeOptions.countryCodes,
+        // Bei quadratischer Matrix sind Starts und Ziele dieselben Punkte
+        ambiguities: [
+          ...new Map(
+            [...sources.ambiguities, ...dests.ambiguities].map((a) => [a.id, a]),
+          ).values(),
+        ],
+      },
+    });
+  } catch (error) {
+    console.error("Error in matrix function:", error);
+    return unexpectedErrorResponse(error, "Fehler bei der Matrixberechnung");
+  }
+});
@@ -0,0 +1,42 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { reverseGeocodeRequestSchema, toIssues } from "../_shared/contract.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  errorResponse,
+  readJsonBody,
+  unexpectedErrorResponse,
+} from "../_shared/errors.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { nominatimReverse } from "../_shared/routing/nominatim.ts";
+
+const RATE_LIMIT = { limit: 60, windowSeconds: 60 };
+
+// --- Main Handler ---
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const limited = await enforceRateLimit(req, "reverse-geocode", RATE_LIMIT);
+    if (limited) return limited;
+
+    const payload = await readJsonBody(req);
+    if (payload instanceof Response) return payload;
+    const parsed = reverseGeocodeRequestSchema.safeParse(payload);
+    if (!parsed.success) {
+      return errorResponse("INVALID_REQUEST", "Ungültige Koordinaten", {
+        issues: toIssues(parsed.error),
+      });
+    }
+    const { lat, lng } = parsed.data;
+
+    // address = null: kein Treffer (z.B. auf dem Meer), Client zeigt Koordinaten
+    const address = await nominatimReverse({ lat, lng });
+    return jsonResponse({ lat, lng, address });
+  } catch (error) {
+    console.error("Error in reverse-geocode function:", error);
+    return unexpectedErrorResponse(error, "Fehler bei der Adressermittlung");
+  }
+});
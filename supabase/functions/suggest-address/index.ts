@@ -0,0 +1,60 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { suggestRequestSchema, toIssues } from "../_shared/contract.ts";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import {
+  errorResponse,
+  readJsonBody,
+  unexpectedErrorResponse,
+} from "../_shared/errors.ts";
+import { enforceRateLimit } from "../_shared/rateLimit.ts";
+import { resolveCountryCodes } from "../_shared/geocoding.ts";
+import { photonSuggest } from "../_shared/routing/photon.ts";
+
+const MIN_QUERY_LENGTH = 3;
+const MAX_LIMIT = 10;
+
+// Großzügig, der Client fragt bei jeder Eingabe (entprellt)
+const RATE_LIMIT = { limit: 120, windowSeconds: 60 };
+
+// --- Main Handler ---
+serve(async (req) => {
+  // CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const limited = await enforceRateLimit(req, "suggest-address", RATE_LIMIT);
+    if (limited) return limited;
+
+    const payload = await readJsonBody(req);
+    if (payload instanceof Response) return payload;
+    const parsed = suggestRequestSchema.safeParse(payload);
+    if (!parsed.success) {
+      return errorResponse("INVALID_REQUEST", "Ungültige Anfrage", {
+        issues: toIssues(parsed.error),
+      });
+    }
+    const { query, lat, lng, zoom, limit = 5, countries } = parsed.data;
+
+    const q = query.trim();
+    if (q.length < MIN_QUERY_LENGTH) {
+      return jsonResponse({ suggestions: [] });
+    }
+
+    const bias = lat !== undefined && lng !== undefined
+      ? { lat, lng, zoom }
+      : undefined;
+
+    const suggestions = await photonSuggest(q, {
+      limit: Math.min(limit, MAX_LIMIT),
+      bias,
+      countryCodes: resolveCountryCodes(countries),
+    });
+
+    return jsonResponse({ suggestions });
+  } catch (error) {
+    console.error("Error in suggest-address function:", error);
+    return unexpectedErrorResponse(error, "Fehler bei der Adresssuche");
+  }
+});
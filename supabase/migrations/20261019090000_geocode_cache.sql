@@ -0,0 +1,60 @@
+-- Geocoding-Cache für die Edge Functions (Nominatim/GraphHopper).
+-- Schlüssel ist die normalisierte Adresse; lat/lng = null speichert
+-- "nicht gefunden" (negatives Caching mit kürzerer TTL).
+create table if not exists public.geocode_cache (
+  query_key text primary key,
+  address text not null,
+  lat double precision,
+  lng double precision,
+  provider text,
+  -- Manuell korrigierte Einträge laufen nie ab und werden nie überschrieben
+  is_override boolean not null default false,
+  hit_count integer not null default 0,
+  miss_count integer not null default 0,
+  expires_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint geocode_cache_coords_pair check ((lat is null) = (lng is null))
+);
+
+create index if not exists geocode_cache_expires_at_idx
+  on public.geocode_cache (expires_at);
+
+alter table public.geocode_cache enable row level security;
+
+-- Edge Functions schreiben mit dem Service-Role-Key (umgeht RLS).
+-- Admins dürfen Einträge einsehen und falsche Ergebnisse überschreiben.
+create policy "Admins can read geocode cache"
+  on public.geocode_cache for select
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()));
+
+create policy "Admins can insert geocode overrides"
+  on public.geocode_cache for insert
+  to authenticated
+  with check (public.has_min_role('admin', auth.uid()));
+
+create policy "Admins can update geocode cache"
+  on public.geocode_cache for update
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()))
+  with check (public.has_min_role('admin', auth.uid()));
+
+create policy "Admins can delete geocode cache"
+  on public.geocode_cache for delete
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()));
+
+-- Zähler atomar erhöhen, ohne den Eintrag vorher lesen zu müssen
+create or replace function public.geocode_cache_hit(_query_key text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.geocode_cache
+     set hit_count = hit_count + 1
+   where query_key = _query_key;
+$$;
+
+revoke execute on function public.geocode_cache_hit(text) from public, anon, authenticated;
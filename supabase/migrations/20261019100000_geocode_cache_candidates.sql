@@ -0,0 +1,13 @@
+-- Mehrere Treffer je Anfrage speichern (Mehrdeutigkeit im Client anzeigen).
+-- Der Schlüssel enthält jetzt die Länderliste: "<de,fr>|<adresse>" bzw.
+-- "*|<adresse>" für weltweit. Alte Einträge (nur DE) passen nicht mehr.
+alter table public.geocode_cache
+  add column if not exists candidates jsonb;
+
+delete from public.geocode_cache
+ where query_key not like '%|%'
+   and not is_override;
+
+update public.geocode_cache
+   set query_key = 'de|' || query_key
+ where query_key not like '%|%';
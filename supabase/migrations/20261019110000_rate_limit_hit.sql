@@ -0,0 +1,30 @@
+-- Festes Zeitfenster je source_key ("<function>:<user|key|ip>:<id>").
+-- Zählt atomar hoch bzw. startet ein neues Fenster, wenn das alte abgelaufen ist.
+create unique index if not exists rate_limits_source_key_idx
+  on public.rate_limits (source_key);
+
+create or replace function public.rate_limit_hit(_source_key text, _window_seconds integer)
+returns table (request_count integer, window_start timestamptz)
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.rate_limits as r (source_key, window_start, request_count)
+  values (_source_key, now(), 1)
+  on conflict (source_key) do update
+     set window_start = case
+           when r.window_start is null
+             or r.window_start <= now() - make_interval(secs => _window_seconds)
+           then now()
+           else r.window_start
+         end,
+         request_count = case
+           when r.window_start is null
+             or r.window_start <= now() - make_interval(secs => _window_seconds)
+           then 1
+           else coalesce(r.request_count, 0) + 1
+         end
+  returning r.request_count::integer, r.window_start;
+$$;
+
+revoke execute on function public.rate_limit_hit(text, integer) from public, anon, authenticated;
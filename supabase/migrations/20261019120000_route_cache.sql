@@ -0,0 +1,41 @@
+-- Cache für vollständige calculate-route-Antworten (nur echte Routen, keine
+-- Luftlinien). Schlüssel ist ein SHA-256 über den normalisierten Request.
+create table if not exists public.route_cache (
+  request_hash text primary key,
+  response jsonb not null,
+  provider text,
+  hit_count integer not null default 0,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists route_cache_expires_at_idx
+  on public.route_cache (expires_at);
+
+alter table public.route_cache enable row level security;
+
+-- Edge Functions schreiben mit dem Service-Role-Key; Admins sehen die
+-- Trefferzahlen (Einsparung beim Routing-Kontingent) und können leeren.
+create policy "Admins can read route cache"
+  on public.route_cache for select
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()));
+
+create policy "Admins can delete route cache"
+  on public.route_cache for delete
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()));
+
+create or replace function public.route_cache_hit(_request_hash text)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  update public.route_cache
+     set hit_count = hit_count + 1
+   where request_hash = _request_hash;
+$$;
+
+revoke execute on function public.route_cache_hit(text) from public, anon, authenticated;
@@ -0,0 +1,18 @@
+-- Circuit-Breaker-Zustand je Upstream-Dienst (ors, osrm, graphhopper,
+-- nominatim, photon). Die Functions schreiben nur bei Zustandswechseln;
+-- die health-Function liest die Tabelle.
+create table if not exists public.provider_health (
+  provider text primary key,
+  state text not null check (state in ('closed', 'open', 'half-open')),
+  failures integer not null default 0,
+  open_until timestamptz,
+  last_error text,
+  updated_at timestamptz not null default now()
+);
+
+alter table public.provider_health enable row level security;
+
+create policy "Admins can read provider health"
+  on public.provider_health for select
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()));
@@ -0,0 +1,35 @@
+-- Benannte Sammlungen von Sperrflächen (Baustellen, Innenstädte,
+-- kundenspezifische No-go-Bereiche) je Nutzer. areas ist ein Array von
+-- GeoJSON-Polygonen wie in RouteRequest.avoidAreas.
+create table if not exists public.avoid_area_sets (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  name text not null check (length(trim(name)) > 0),
+  areas jsonb not null default '[]'::jsonb check (jsonb_typeof(areas) = 'array'),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+alter table public.avoid_area_sets enable row level security;
+
+create policy "Users can read own avoid areas"
+  on public.avoid_area_sets for select
+  to authenticated
+  using (user_id = auth.uid());
+
+create policy "Users can create own avoid areas"
+  on public.avoid_area_sets for insert
+  to authenticated
+  with check (user_id = auth.uid());
+
+create policy "Users can update own avoid areas"
+  on public.avoid_area_sets for update
+  to authenticated
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete own avoid areas"
+  on public.avoid_area_sets for delete
+  to authenticated
+  using (user_id = auth.uid());
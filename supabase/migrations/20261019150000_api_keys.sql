@@ -0,0 +1,17 @@
+-- API-Keys für Aufrufe ohne Nutzer-Login. Gespeichert wird nur der
+-- SHA-256-Hash; der Rate-Limiter zählt nur gültige, nicht widerrufene Keys
+-- unter "key:<hash>", alles andere fällt auf die Client-IP zurück.
+create table if not exists public.api_keys (
+  key_hash text primary key,
+  label text not null,
+  created_at timestamptz not null default now(),
+  revoked_at timestamptz
+);
+
+alter table public.api_keys enable row level security;
+
+-- Edge Functions lesen mit dem Service-Role-Key (umgeht RLS).
+create policy "Admins can read api keys"
+  on public.api_keys for select
+  to authenticated
+  using (public.has_min_role('admin', auth.uid()));
@@ -17,6 +17,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // API-Vertrag liegt bei den Edge Functions und wird hier mitbenutzt
+      "@contract": path.resolve(__dirname, "./supabase/functions/_shared/contract.ts"),
     },
   },
 }));